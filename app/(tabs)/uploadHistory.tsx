@@ -1,78 +1,83 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import { StyleSheet, TouchableOpacity, View, FlatList, Image, ActivityIndicator } from 'react-native';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
 import { router } from 'expo-router';
 import { theme } from '../styles/theme';
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StyleWithUploads as Style, Upload } from '@/lib/api';
+import { setSessionStyle } from '@/lib/session';
+import { SessionExpiredBanner } from '@/components/SessionExpiredBanner';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { useStyleList } from '@/hooks/useStyleList';
+import { InvalidResponseError } from '@/lib/apiErrors';
 
-interface Upload {
-  id: string;
-  filename: string;
-  createdAt: string;
-  // Add any other upload properties you need
-}
-
-interface Style {
-  id: string;
-  name: string;
-  thumbnailUrl?: string;
+interface UploadGroup {
+  key: string;
   uploads: Upload[];
 }
 
+// Files that are variants of the same capture are listed together.
+const groupUploads = (uploads: Upload[]) => {
+  const groups: UploadGroup[] = [];
+  const byCapture = new Map<string, UploadGroup>();
+
+  uploads.forEach(upload => {
+    const existing = upload.captureId ? byCapture.get(upload.captureId) : undefined;
+    if (existing) {
+      existing.uploads.push(upload);
+      return;
+    }
+    const group = { key: upload.captureId ?? upload.id, uploads: [upload] };
+    if (upload.captureId) {
+      byCapture.set(upload.captureId, group);
+    }
+    groups.push(group);
+  });
+
+  return groups;
+};
+
 export default function UploadHistoryScreen() {
   const [selectedStyle, setSelectedStyle] = useState<Style | null>(null);
-  const [styles, setStyles] = useState<Style[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { styles: styleList, loading, error, refresh } = useStyleList();
   const [refreshing, setRefreshing] = useState(false);
   const insets = useSafeAreaInsets();
 
-  useEffect(() => {
-    loadStyles();
-  }, []);
-
-  const loadStyles = async () => {
-    try {
-      const accessToken = await AsyncStorage.getItem('accessToken');
-      const baseUrl = await AsyncStorage.getItem('baseUrl');
-      
-      console.log('Fetching styles from:', `${baseUrl}/api/styles`);
-      console.log('Using token:', accessToken);
-      
-      const response = await fetch(`${baseUrl}/api/styles`, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Accept': 'application/json',
-        },
-      });
-      
-      const data = await response.json();
-      console.log('Received styles:', data);
-      setStyles(data);
-    } catch (error) {
-      console.error('Error loading styles:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await loadStyles();
+    await refresh();
     setRefreshing(false);
-  }, []);
+  }, [refresh]);
 
   const renderUpload = ({ item }: { item: Upload }) => (
     <View style={styles.uploadItem}>
-      <ThemedText>{item.filename}</ThemedText>
+      <View style={styles.uploadName}>
+        <ThemedText>{item.filename}</ThemedText>
+        {item.variant && (
+          <ThemedText style={styles.variantTag}>{item.variant}</ThemedText>
+        )}
+      </View>
       <ThemedText style={styles.uploadDate}>
         {new Date(item.createdAt).toLocaleDateString()}
       </ThemedText>
     </View>
   );
 
+  const renderUploadGroup = ({ item }: { item: UploadGroup }) => (
+    item.uploads.length === 1 ? renderUpload({ item: item.uploads[0] }) : (
+      <View style={styles.uploadGroup}>
+        <Ionicons name="link" size={16} color={theme.colors.textSecondary} style={styles.groupIcon} />
+        <View style={styles.groupItems}>
+          {item.uploads.map(upload => (
+            <View key={upload.id}>{renderUpload({ item: upload })}</View>
+          ))}
+        </View>
+      </View>
+    )
+  );
+
   const renderStyle = ({ item }: { item: Style }) => (
     <TouchableOpacity 
       style={styles.styleCard}
@@ -94,9 +99,9 @@ export default function UploadHistoryScreen() {
         <View style={styles.uploadsList}>
           {item.uploads.length > 0 ? (
             <FlatList
-              data={item.uploads}
-              renderItem={renderUpload}
-              keyExtractor={upload => upload.id}
+              data={groupUploads(item.uploads)}
+              renderItem={renderUploadGroup}
+              keyExtractor={group => group.key}
               scrollEnabled={false}
             />
           ) : (
@@ -104,8 +109,8 @@ export default function UploadHistoryScreen() {
           )}
           <TouchableOpacity 
             style={styles.uploadButton}
-            onPress={() => {
-              AsyncStorage.setItem('styleId', item.id);
+            onPress={async () => {
+              await setSessionStyle(item.id);
               router.push('/upload');
             }}
           >
@@ -120,7 +125,10 @@ export default function UploadHistoryScreen() {
   return (
     <ThemedView style={styles.container}>
       <View style={[styles.header, { paddingTop: insets.top }]}>
-        <ThemedText style={styles.title}>Styles</ThemedText>
+        <View>
+          <ThemedText style={styles.title}>Styles</ThemedText>
+          <ProfileSwitcher />
+        </View>
         <TouchableOpacity 
           style={styles.newUploadButton}
           onPress={() => router.push('/upload')}
@@ -130,13 +138,15 @@ export default function UploadHistoryScreen() {
         </TouchableOpacity>
       </View>
 
+      <SessionExpiredBanner />
+
       {loading ? (
         <View style={styles.centered}>
           <ActivityIndicator color={theme.colors.primary} />
         </View>
-      ) : styles.length > 0 ? (
+      ) : styleList.length > 0 ? (
         <FlatList
-          data={styles}
+          data={styleList}
           renderItem={renderStyle}
           keyExtractor={item => item.id}
           refreshing={refreshing}
@@ -146,6 +156,22 @@ export default function UploadHistoryScreen() {
             { paddingBottom: insets.bottom + theme.spacing.md }
           ]}
         />
+      ) : error ? (
+        <View style={styles.centered}>
+          <Ionicons name="alert-circle-outline" size={48} color={theme.colors.error} />
+          <ThemedText style={styles.emptyText}>Couldn't load styles</ThemedText>
+          <ThemedText style={styles.errorMessage}>{error.message}</ThemedText>
+          {error instanceof InvalidResponseError && (
+            // Selectable, so it can be copied into a bug report
+            <ThemedText style={styles.errorDetails} selectable>
+              {error.issues.slice(0, 5).join('\n')}
+            </ThemedText>
+          )}
+          <TouchableOpacity style={[styles.uploadButton, styles.retryButton]} onPress={onRefresh}>
+            <Ionicons name="refresh" size={20} color={theme.colors.primary} />
+            <ThemedText style={styles.uploadButtonText}>Try Again</ThemedText>
+          </TouchableOpacity>
+        </View>
       ) : (
         <View style={styles.centered}>
           <Ionicons name="images-outline" size={48} color={theme.colors.textSecondary} />
@@ -251,6 +277,35 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: theme.spacing.sm,
   },
+  uploadName: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    flexShrink: 1,
+  },
+  variantTag: {
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.sm,
+    paddingHorizontal: theme.spacing.xs,
+    overflow: 'hidden',
+  },
+  uploadGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderLeftWidth: 2,
+    borderLeftColor: theme.colors.border,
+    paddingLeft: theme.spacing.sm,
+    marginVertical: theme.spacing.xs,
+  },
+  groupIcon: {
+    marginRight: theme.spacing.sm,
+  },
+  groupItems: {
+    flex: 1,
+  },
   uploadDate: {
     color: theme.colors.textSecondary,
     fontSize: 14,
@@ -275,4 +330,20 @@ const styles = StyleSheet.create({
     color: theme.colors.textSecondary,
     marginBottom: theme.spacing.sm,
   },
+  errorMessage: {
+    marginTop: theme.spacing.xs,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+  errorDetails: {
+    marginTop: theme.spacing.sm,
+    marginHorizontal: theme.spacing.lg,
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: theme.spacing.md,
+    paddingHorizontal: theme.spacing.md,
+  },
 });
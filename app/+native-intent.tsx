@@ -0,0 +1,17 @@
+import { isStyleLink } from '@/lib/qrPayload';
+import { routeForStyleLink } from '@/lib/styleLink';
+
+// Style links from email or chat, whether the Matter server's own
+// /mobile-upload links or myapp://upload ones, connect like a scanned QR code
+// would and open the upload screen, once the user has agreed to any server
+// that is new to the app. A link that doesn't work lands on the scanner with
+// the reason. Every other link routes as usual.
+export async function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    if (!isStyleLink(path)) return path;
+    return await routeForStyleLink(path);
+  } catch (error) {
+    console.error('Error opening link:', error);
+    return '/';
+  }
+}
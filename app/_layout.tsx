@@ -6,6 +6,32 @@ import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { startUploadQueue } from '@/lib/uploadQueue';
+import { getSession, saveSession } from '@/lib/session';
+
+// `EXPO_PUBLIC_MOCK_BACKEND=true npx expo start` answers API calls from
+// fixtures instead of a Matter server, see lib/mockBackend.
+const mockBackendEnabled = process.env.EXPO_PUBLIC_MOCK_BACKEND === 'true';
+let connectToMockBackend: (() => void) | undefined;
+if (mockBackendEnabled) {
+  // Required rather than imported so builds without the flag leave the mock
+  // and its fixtures out of the bundle.
+  const { createMockBackend, installMockBackend, MOCK_ACCESS_TOKEN, MOCK_BASE_URL } =
+    require('@/lib/mockBackend') as typeof import('@/lib/mockBackend');
+  const { FIXTURE_STYLES } = require('@/lib/mockBackendFixtures') as typeof import('@/lib/mockBackendFixtures');
+
+  installMockBackend(createMockBackend({
+    latency: Number(process.env.EXPO_PUBLIC_MOCK_LATENCY ?? 300),
+    failureRate: Number(process.env.EXPO_PUBLIC_MOCK_FAILURE_RATE ?? 0),
+  }));
+  connectToMockBackend = () => {
+    getSession().then(session => {
+      if (!session.baseUrl) {
+        saveSession({ styleId: FIXTURE_STYLES[0].id, accessToken: MOCK_ACCESS_TOKEN, baseUrl: MOCK_BASE_URL });
+      }
+    });
+  };
+}
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -16,6 +42,15 @@ export default function RootLayout() {
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
 
+  useEffect(() => {
+    startUploadQueue();
+  }, []);
+
+  // Connect to the mock server straight away so there's nothing to scan.
+  useEffect(() => {
+    connectToMockBackend?.();
+  }, []);
+
   useEffect(() => {
     if (loaded) {
       SplashScreen.hideAsync();
@@ -30,6 +65,8 @@ export default function RootLayout() {
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="settings" options={{ title: 'Settings' }} />
+        <Stack.Screen name="connect" options={{ title: 'Open Link' }} />
         <Stack.Screen name="+not-found" />
       </Stack>
     </ThemeProvider>
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { StyleSheet, View, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { theme } from './styles/theme';
+import { parseQrPayload } from '@/lib/qrPayload';
+import { connectStyleLink } from '@/lib/styleLink';
+
+// Opened style links for a server the app doesn't know yet end up here, see
+// +native-intent, so nobody gets moved to another server by tapping a link.
+export default function ConnectScreen() {
+  const { link = '' } = useLocalSearchParams<{ link?: string }>();
+  const [connecting, setConnecting] = useState(false);
+  const result = parseQrPayload(link);
+
+  const connect = async () => {
+    setConnecting(true);
+    try {
+      const connected = await connectStyleLink(link);
+      if (!connected.ok) {
+        alert(connected.message);
+        return;
+      }
+      router.replace('/upload');
+    } catch (error) {
+      console.error('Error connecting from link:', error);
+      alert('Couldn\'t save the upload link. Try opening it again.');
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const cancel = () => {
+    router.replace('/');
+  };
+
+  if (!result.ok) {
+    return (
+      <ThemedView style={styles.container}>
+        <ThemedText style={styles.message}>{result.message}</ThemedText>
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={cancel}>
+            <ThemedText style={styles.secondaryButtonText}>Close</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <Ionicons name="server-outline" size={40} color={theme.colors.textSecondary} />
+      <ThemedText style={styles.title}>Connect to a new server?</ThemedText>
+      <ThemedText style={styles.server}>{result.payload.baseUrl}</ThemedText>
+      <ThemedText style={styles.message}>
+        The link you opened uploads to style {result.payload.styleId} on this server. Only connect if you
+        expected a link from it; photos you upload next will be sent there.
+      </ThemedText>
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.primaryButton} onPress={connect} disabled={connecting}>
+          {connecting ? (
+            <ActivityIndicator color={theme.colors.surface} />
+          ) : (
+            <ThemedText style={styles.primaryButtonText}>Connect</ThemedText>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={cancel} disabled={connecting}>
+          <ThemedText style={styles.secondaryButtonText}>Cancel</ThemedText>
+        </TouchableOpacity>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.lg,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.colors.text,
+    marginTop: theme.spacing.md,
+  },
+  server: {
+    fontSize: 16,
+    color: theme.colors.primary,
+    marginTop: theme.spacing.sm,
+  },
+  message: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.md,
+  },
+  actions: {
+    alignSelf: 'stretch',
+    gap: theme.spacing.md,
+    marginTop: theme.spacing.xl,
+  },
+  primaryButton: {
+    backgroundColor: theme.colors.primary,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: theme.colors.surface,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  secondaryButton: {
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: theme.colors.text,
+    fontSize: 16,
+  },
+});
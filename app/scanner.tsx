@@ -1,15 +1,20 @@
 import { useState, useEffect } from 'react';
 import { StyleSheet, View, TouchableOpacity } from 'react-native';
 import { BarCodeScanner } from 'expo-barcode-scanner';
-import { router } from 'expo-router';
+import * as ImagePicker from 'expo-image-picker';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
 import { theme } from './styles/theme';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { connectStyleLink } from '@/lib/styleLink';
+import { parseQrPayload, QR_ERROR_MESSAGES, QrErrorReason } from '@/lib/qrPayload';
 
 export default function ScannerScreen() {
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [scanned, setScanned] = useState(false);
+  // Set when an opened style link didn't work, see +native-intent
+  const { linkError } = useLocalSearchParams<{ linkError?: QrErrorReason }>();
 
   useEffect(() => {
     const getCameraPermissions = async () => {
@@ -20,39 +25,64 @@ export default function ScannerScreen() {
     getCameraPermissions();
   }, []);
 
-  const handleBarCodeScanned = async  ({ data }: { type: string; data: string }) => {
-    if (scanned) return;
-    
-    try {      
-      const url = new URL(data);
-      const pathParts = url.pathname.split('/');
-      const styleId = pathParts[3];
-      const token = url.searchParams.get('token');
+  // Live scans and codes read from an image end up here alike.
+  const connect = async (data: string) => {
+    setScanned(true);
 
-      if (styleId && token) {
-        await AsyncStorage.setItem('styleId', styleId)
-        await AsyncStorage.setItem('accessToken', token);
-        await AsyncStorage.setItem('baseUrl', url.origin)
-        setScanned(true);
-        global.uploadContext = {
-          styleId,
-          token,
-          baseUrl: url.origin
-        };
-        
-        router.push('/upload');
-      } else {
-        setScanned(true);
-        alert('Invalid QR Code format');
-        router.push('/');
+    try {
+      const result = await connectStyleLink(data);
+      if (!result.ok) {
+        alert(result.message);
+        return;
       }
+      router.push('/upload');
     } catch (error) {
       console.error('Scanner error:', error);
-      alert('Invalid QR Code format');
-      setScanned(true);
+      alert('Couldn\'t save the upload link. Try scanning again.');
     }
   };
 
+  const handleBarCodeScanned = ({ data }: { type: string; data: string }) => {
+    if (scanned) return;
+    connect(data);
+  };
+
+  // For codes that arrived as a screenshot, which the camera can't be
+  // pointed at on the same phone.
+  const scanFromImage = async () => {
+    // Keeps the camera from picking up a code while the library is open
+    setScanned(true);
+    const picked = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 1,
+    });
+    if (picked.canceled) {
+      setScanned(false);
+      return;
+    }
+
+    try {
+      const codes = await BarCodeScanner.scanFromURLAsync(picked.assets[0].uri, [BarCodeScanner.Constants.BarCodeType.qr]);
+      if (codes.length === 0) {
+        alert('No QR code found in that image. Try a screenshot with the whole code in view.');
+        return;
+      }
+      // A page can hold other codes besides the style one.
+      const code = codes.find(candidate => parseQrPayload(candidate.data).ok) ?? codes[0];
+      await connect(code.data);
+    } catch (error) {
+      console.error('Error scanning image:', error);
+      alert('Couldn\'t read that image. Try another one.');
+    }
+  };
+
+  const scanFromImageButton = (
+    <TouchableOpacity style={styles.imageButton} onPress={scanFromImage}>
+      <Ionicons name="image-outline" size={20} color={theme.colors.surface} />
+      <ThemedText style={styles.buttonText}>Scan from Image</ThemedText>
+    </TouchableOpacity>
+  );
+
   if (hasPermission === null) {
     return (
       <ThemedView style={styles.container}>
@@ -63,8 +93,9 @@ export default function ScannerScreen() {
 
   if (hasPermission === false) {
     return (
-      <ThemedView style={styles.container}>
+      <ThemedView style={[styles.container, styles.centered]}>
         <ThemedText>No access to camera</ThemedText>
+        <View style={styles.actions}>{scanFromImageButton}</View>
       </ThemedView>
     );
   }
@@ -77,20 +108,28 @@ export default function ScannerScreen() {
         barCodeTypes={[BarCodeScanner.Constants.BarCodeType.qr]}
       >
         <View style={styles.overlay}>
+          {linkError && QR_ERROR_MESSAGES[linkError] && (
+            <ThemedText style={styles.linkError}>
+              {`The link you opened didn't work. ${QR_ERROR_MESSAGES[linkError]}`}
+            </ThemedText>
+          )}
           <View style={styles.scanFrame} />
           <ThemedText style={styles.instructions}>
             Position the QR code within the frame
           </ThemedText>
         </View>
 
-        {scanned && (
-          <TouchableOpacity 
-            style={styles.rescanButton}
-            onPress={() => setScanned(false)}
-          >
-            <ThemedText style={styles.buttonText}>Scan Again</ThemedText>
-          </TouchableOpacity>
-        )}
+        <View style={[styles.actions, styles.bottomActions]}>
+          {scanned && (
+            <TouchableOpacity 
+              style={styles.rescanButton}
+              onPress={() => setScanned(false)}
+            >
+              <ThemedText style={styles.buttonText}>Scan Again</ThemedText>
+            </TouchableOpacity>
+          )}
+          {scanFromImageButton}
+        </View>
       </BarCodeScanner>
     </ThemedView>
   );
@@ -114,6 +153,17 @@ const styles = StyleSheet.create({
     borderColor: theme.colors.surface,
     borderRadius: theme.borderRadius.md,
   },
+  linkError: {
+    color: theme.colors.surface,
+    backgroundColor: theme.colors.error,
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: theme.spacing.lg,
+    marginHorizontal: theme.spacing.lg,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    overflow: 'hidden',
+  },
   instructions: {
     color: theme.colors.surface,
     fontSize: 16,
@@ -121,15 +171,38 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: theme.spacing.lg,
   },
-  rescanButton: {
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actions: {
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    marginTop: theme.spacing.lg,
+  },
+  bottomActions: {
     position: 'absolute',
     bottom: theme.spacing.xl,
-    alignSelf: 'center',
+    left: 0,
+    right: 0,
+  },
+  rescanButton: {
     backgroundColor: theme.colors.primary,
     paddingVertical: theme.spacing.md,
     paddingHorizontal: theme.spacing.lg,
     borderRadius: theme.borderRadius.md,
   },
+  imageButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderWidth: 1,
+    borderColor: theme.colors.surface,
+    paddingVertical: theme.spacing.md,
+    paddingHorizontal: theme.spacing.lg,
+    borderRadius: theme.borderRadius.md,
+  },
   buttonText: {
     color: theme.colors.surface,
     fontSize: 16,
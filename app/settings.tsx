@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { Alert, StyleSheet, TextInput, TouchableOpacity, View, ScrollView, Switch } from 'react-native';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { theme } from './styles/theme';
+import { useSettings } from '@/hooks/useSettings';
+import { useProfiles } from '@/hooks/useProfiles';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { clearSession, renameProfile } from '@/lib/session';
+import { cancelUploads } from '@/lib/uploadQueue';
+import { DEFAULT_FILE_NAME_TEMPLATE, FILE_NAME_TOKENS, renderFileName } from '@/lib/fileNaming';
+
+const PREVIEW_CONTEXT = {
+  styleName: 'SS25-Dress',
+  styleId: '1042',
+  view: 'front',
+  variant: 'original',
+  index: 1,
+  original: 'IMG_0042',
+};
+
+export default function SettingsScreen() {
+  const [settings, updateSettings] = useSettings();
+  const [template, setTemplate] = useState(settings.fileNameTemplate);
+  const { profiles, activeProfileId } = useProfiles();
+  const profile = profiles.find(candidate => candidate.id === activeProfileId);
+  const [profileName, setProfileName] = useState(profile?.name ?? '');
+  const jobs = useUploadQueue();
+
+  useEffect(() => {
+    setTemplate(settings.fileNameTemplate);
+  }, [settings.fileNameTemplate]);
+
+  useEffect(() => {
+    setProfileName(profile?.name ?? '');
+  }, [profile?.id, profile?.name]);
+
+  const saveTemplate = (value: string) => {
+    updateSettings({ fileNameTemplate: value.trim() || DEFAULT_FILE_NAME_TEMPLATE });
+  };
+
+  const insertToken = (token: string) => {
+    const value = `${template}${template && !template.endsWith('_') ? '_' : ''}{${token}}`;
+    setTemplate(value);
+    saveTemplate(value);
+  };
+
+  const saveProfileName = () => {
+    if (profile && profileName.trim() && profileName.trim() !== profile.name) {
+      renameProfile(profile.id, profileName.trim());
+    } else {
+      setProfileName(profile?.name ?? '');
+    }
+  };
+
+  const forgetServer = () => {
+    if (!profile) return;
+    // Nothing could send these once the profile is gone.
+    const pending = jobs.filter(job => job.profileId === profile.id && job.status !== 'done').map(job => job.id);
+    Alert.alert(
+      `Forget ${profile.name}?`,
+      [
+        'The upload link is removed from this device.',
+        pending.length > 0 ? `${pending.length} files still waiting to upload to it will be cancelled.` : '',
+      ].join(' ').trim(),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Forget',
+          style: 'destructive',
+          onPress: async () => {
+            await cancelUploads(pending);
+            await clearSession(profile.id);
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText style={styles.sectionTitle}>File Names</ThemedText>
+        <ThemedText style={styles.description}>
+          Uploaded files are named from this template. Empty values are left out.
+        </ThemedText>
+
+        <TextInput
+          style={styles.input}
+          value={template}
+          onChangeText={setTemplate}
+          onEndEditing={() => saveTemplate(template)}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        <View style={styles.tokens}>
+          {FILE_NAME_TOKENS.map(token => (
+            <TouchableOpacity key={token} style={styles.token} onPress={() => insertToken(token)}>
+              <ThemedText style={styles.tokenText}>{`{${token}}`}</ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <ThemedText style={styles.preview}>
+          Example: {renderFileName(template, PREVIEW_CONTEXT, 'jpg')}
+        </ThemedText>
+
+        <TouchableOpacity
+          style={styles.resetButton}
+          onPress={() => {
+            setTemplate(DEFAULT_FILE_NAME_TEMPLATE);
+            saveTemplate(DEFAULT_FILE_NAME_TEMPLATE);
+          }}
+        >
+          <ThemedText style={styles.resetButtonText}>Reset to Default</ThemedText>
+        </TouchableOpacity>
+
+        <ThemedText style={[styles.sectionTitle, styles.section]}>Privacy</ThemedText>
+        <View style={styles.switchRow}>
+          <ThemedText style={styles.switchLabel}>Remove location from photos</ThemedText>
+          <Switch
+            value={settings.stripPhotoMetadata}
+            onValueChange={value => updateSettings({ stripPhotoMetadata: value })}
+          />
+        </View>
+        <ThemedText style={styles.description}>
+          GPS coordinates and camera details are removed before upload. JPEGs keep their orientation and capture time, other formats are saved again without any details.
+        </ThemedText>
+
+        <ThemedText style={[styles.sectionTitle, styles.section]}>Server</ThemedText>
+        <ThemedText style={styles.description}>
+          {profile
+            ? `Connected to ${profile.baseUrl}${profile.expired ? ', upload link expired' : ''}`
+            : 'Not connected. Scan a style QR code to connect.'}
+        </ThemedText>
+        {profile ? (
+          <>
+            <TextInput
+              style={styles.input}
+              value={profileName}
+              onChangeText={setProfileName}
+              onEndEditing={saveProfileName}
+              placeholder="Name shown in the server switcher"
+              autoCorrect={false}
+            />
+            <TouchableOpacity style={[styles.dangerButton, styles.section]} onPress={forgetServer}>
+              <ThemedText style={styles.dangerButtonText}>Sign Out and Forget Server</ThemedText>
+            </TouchableOpacity>
+          </>
+        ) : null}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  description: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+    marginBottom: theme.spacing.md,
+  },
+  input: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  tokens: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.md,
+  },
+  token: {
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.sm,
+    borderRadius: theme.borderRadius.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  tokenText: {
+    fontSize: 13,
+    color: theme.colors.text,
+  },
+  preview: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.md,
+  },
+  resetButton: {
+    marginTop: theme.spacing.lg,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+    alignItems: 'center',
+  },
+  resetButtonText: {
+    color: theme.colors.text,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  section: {
+    marginTop: theme.spacing.xl,
+  },
+  dangerButton: {
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.error,
+    backgroundColor: theme.colors.surface,
+    alignItems: 'center',
+  },
+  dangerButtonText: {
+    color: theme.colors.error,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: theme.spacing.md,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+});
@@ -6,6 +6,9 @@ export const theme = {
     text: '#1A1A1A',
     textSecondary: '#666666',
     border: '#E5E5E5',
+    error: '#D32F2F',
+    success: '#2E7D32',
+    warning: '#ED6C02',
   },
   spacing: {
     xs: 4,
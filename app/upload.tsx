@@ -1,6 +1,7 @@
-import { useState, useEffect, useRef } from 'react';
-import { StyleSheet, Image, TouchableOpacity, Alert, View, Modal, ActivityIndicator } from 'react-native';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { StyleSheet, Image, TouchableOpacity, Alert, View, Modal, ActivityIndicator, Switch } from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
 import { Camera } from 'expo-camera';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
@@ -8,17 +9,64 @@ import { router } from 'expo-router';
 import { theme } from './styles/theme';
 import { Ionicons } from '@expo/vector-icons';
 import { ImageAnnotator } from '@/components/ImageAnnotator';
+import { ImageMetadata, ImageMetadataSheet } from '@/components/ImageMetadataSheet';
+import { StylePickerSheet } from '@/components/StylePickerSheet';
+import { SessionExpiredBanner } from '@/components/SessionExpiredBanner';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { DEFAULT_FILE_CATEGORIES, FileCategory, loadFileCategories } from '@/lib/fileCategories';
 import { captureRef } from 'react-native-view-shot';
+import { useUploadProgress, useUploadQueue } from '@/hooks/useUploadQueue';
+import { formatBytes, formatDuration } from '@/lib/format';
+import { useSettings } from '@/hooks/useSettings';
+import { applyUploadPreset, estimatePresetSize, getUploadPreset, UPLOAD_PRESETS } from '@/lib/uploadPresets';
+import * as FileSystem from 'expo-file-system';
+import { buildAnnotationSidecar } from '@/lib/annotationSidecar';
+import { getUploadedHashes, recordUploadedHashes } from '@/lib/uploadedHashes';
+import { detectFileType, DOCUMENT_MIME_TYPES, FileType, renderFileName } from '@/lib/fileNaming';
+import {
+  cancelUploads,
+  createUploadId,
+  enqueueUploads,
+  pauseUploads,
+  resumeUploads,
+  retryFailedUploads,
+  undoUploads,
+  UploadJob,
+  UploadRequest,
+  UploadStatus,
+} from '@/lib/uploadQueue';
+import { UploadReceipt } from '@/lib/uploadTransport';
+import { checkVideoLimits, createVideoPoster, MAX_VIDEO_DURATION_SECONDS } from '@/lib/videoClips';
+import { sanitizePhotoFile } from '@/lib/photoMetadata';
+import { api, StyleSummary } from '@/lib/api';
+import { getSession } from '@/lib/session';
+import { useSession } from '@/hooks/useSession';
+import { useStyleList } from '@/hooks/useStyleList';
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 interface ImageAsset {
   uri: string;
   uploaded: boolean;
+  // Videos and documents are sent as they are, without presets or annotations
+  kind?: 'image' | 'video' | 'document';
+  // Length of a video in milliseconds
+  duration?: number;
   hasAnnotations?: boolean;
   annotations?: AnnotationData;
   thumbnailUri?: string;
   selected?: boolean;
+  isCover?: boolean;
+  width?: number;
+  height?: number;
+  fileSize?: number;
+  mimeType?: string;
+  fileName?: string;
+  metadata?: ImageMetadata;
+  // MD5 of the original file, used to spot duplicates
+  contentHash?: string;
+  // Files the server created for this photo
+  receipts?: UploadReceipt[];
 }
 
 interface AnnotationData {
@@ -27,8 +75,115 @@ interface AnnotationData {
   icons: any[];
   rectangles: any[];
   measurements: any[];
+  thumbnailUri?: string;
+  canvas?: { width: number; height: number };
 }
 
+const STATUS_LABELS: Partial<Record<UploadStatus, string>> = {
+  queued: 'Queued',
+  retrying: 'Retrying',
+  paused: 'Paused',
+  failed: 'Failed',
+};
+
+type JobState = Pick<UploadJob, 'status' | 'progress' | 'waitingForNetwork' | 'waitingForSession'> & { receipts: UploadReceipt[] };
+
+const jobStatusLabel = (job: Pick<UploadJob, 'status' | 'waitingForNetwork' | 'waitingForSession'>) => (
+  job.waitingForNetwork ? 'Offline' : job.waitingForSession ? 'Rescan' : STATUS_LABELS[job.status]
+);
+
+// A photo sent as an original and annotated pair shows as one tile, so the
+// state of its jobs is folded into one.
+const STATUS_PRECEDENCE: UploadStatus[] = ['uploading', 'failed', 'retrying', 'paused', 'queued', 'done'];
+
+const summarizeJobs = (captureJobs: UploadJob[]): JobState => ({
+  status: STATUS_PRECEDENCE.find(status => captureJobs.some(job => job.status === status)) ?? 'queued',
+  progress: captureJobs.reduce((total, job) => total + job.progress, 0) / captureJobs.length,
+  waitingForNetwork: captureJobs.some(job => job.waitingForNetwork),
+  waitingForSession: captureJobs.some(job => job.waitingForSession),
+  receipts: captureJobs.flatMap(job => (job.receipt ? [job.receipt] : [])),
+});
+
+// How long a finished batch can still be taken back.
+const UNDO_WINDOW_MS = 10000;
+
+// Tags go to the server as one comma separated field.
+const metadataFields = (metadata?: ImageMetadata): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  if (metadata?.view) fields.view = metadata.view;
+  if (metadata?.caption) fields.caption = metadata.caption;
+  if (metadata?.tags.length) fields.tags = metadata.tags.join(',');
+  return fields;
+};
+
+// Hashes the file for duplicate checks. Camera results don't always report a
+// file size either, which the preset estimate needs.
+const readFileInfo = async (uri: string, reportedSize?: number) => {
+  let fileSize = reportedSize;
+  let contentHash: string | undefined;
+  try {
+    const info = await FileSystem.getInfoAsync(uri, { md5: true });
+    if (info.exists) {
+      fileSize = fileSize || info.size;
+      contentHash = info.md5;
+    }
+  } catch (error) {
+    console.error('Error reading file info:', error);
+  }
+  return { fileSize, contentHash };
+};
+
+// Videos get a poster frame for the grid.
+const toImageAsset = async (asset: ImagePicker.ImagePickerAsset): Promise<ImageAsset> => {
+  const isVideo = asset.type === 'video';
+  const { fileSize, contentHash } = await readFileInfo(asset.uri, asset.fileSize);
+  return {
+    uri: asset.uri,
+    uploaded: false,
+    selected: false,
+    kind: isVideo ? 'video' : 'image',
+    duration: asset.duration ?? undefined,
+    thumbnailUri: isVideo ? await createVideoPoster(asset.uri) : undefined,
+    width: asset.width,
+    height: asset.height,
+    fileSize,
+    mimeType: asset.mimeType,
+    fileName: asset.fileName ?? undefined,
+    contentHash,
+  };
+};
+
+const toDocumentAsset = async (asset: DocumentPicker.DocumentPickerAsset): Promise<ImageAsset> => {
+  const { fileSize, contentHash } = await readFileInfo(asset.uri, asset.size);
+  return {
+    uri: asset.uri,
+    uploaded: false,
+    selected: false,
+    kind: 'document',
+    fileSize,
+    mimeType: asset.mimeType,
+    fileName: asset.name,
+    contentHash,
+  };
+};
+
+type DuplicateChoice = 'skip' | 'upload' | 'cancel';
+
+const askAboutDuplicates = (count: number) => new Promise<DuplicateChoice>(resolve => {
+  Alert.alert(
+    'Already Uploaded',
+    count === 1
+      ? '1 selected photo has already been uploaded to this style.'
+      : `${count} selected photos have already been uploaded to this style.`,
+    [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve('cancel') },
+      { text: 'Upload Anyway', onPress: () => resolve('upload') },
+      { text: 'Skip Duplicates', onPress: () => resolve('skip') },
+    ],
+    { cancelable: true, onDismiss: () => resolve('cancel') }
+  );
+});
+
 // Add a function to load saved annotations
 const loadSavedAnnotations = async (imageUri: string) => {
   try {
@@ -49,51 +204,275 @@ export default function UploadScreen() {
   const [showAnnotator, setShowAnnotator] = useState(false);
   const [loadedAnnotations, setLoadedAnnotations] = useState<AnnotationData | null>(null);
   const imageAnnotatorRef = useRef<ImageAnnotator>(null);
+  // Tiles whose file is gone, e.g. a picker copy the system has cleared out
+  const [missingPreviews, setMissingPreviews] = useState<string[]>([]);
 
-  // Add new state for tracking progress
-  const [uploadProgress, setUploadProgress] = useState<{[key: string]: number}>({});
+  const jobs = useUploadQueue();
+  const [settings, updateSettings] = useSettings();
+  const preset = getUploadPreset(settings.uploadPreset);
+  const overallProgress = useUploadProgress();
+  // Job ids of the batch shown in the progress modal
+  const [activeBatch, setActiveBatch] = useState<string[]>([]);
+  // Finished jobs that can still be undone
+  const [undoBatch, setUndoBatch] = useState<string[]>([]);
 
+  const session = useSession();
+  const profileId = session?.profileId ?? null;
+  const [styleId, setStyleId] = useState<string | null>(null);
   const [styleName, setStyleName] = useState<string>('');
+  const [styleError, setStyleError] = useState<string | null>(null);
+  // Other styles the same photos can be sent to, e.g. colourways
+  const { styles: styleOptions } = useStyleList();
+  // Null until the user picks, which means just the scanned style
+  const [targetStyleIds, setTargetStyleIds] = useState<string[] | null>(null);
+  const [showStylePicker, setShowStylePicker] = useState(false);
 
+  const [categories, setCategories] = useState<FileCategory[]>(DEFAULT_FILE_CATEGORIES);
+  const [metadataIndex, setMetadataIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!profileId) return;
+    let current = true;
+    setCategories(DEFAULT_FILE_CATEGORIES);
+    loadFileCategories(profileId).then(loaded => current && setCategories(loaded));
+    return () => {
+      current = false;
+    };
+  }, [profileId]);
+
+  // Everything style related belongs to the active server profile.
+  const sessionLoaded = session !== null;
   useEffect(() => {
+    if (!sessionLoaded) return;
+    setTargetStyleIds(null);
     loadStyleInfo();
-  }, []);
+  }, [sessionLoaded, profileId, session?.styleId]);
+
+  const styleNameFor = useCallback((id: string) => (
+    id === styleId ? styleName : styleOptions.find(style => style.id === id)?.name ?? id
+  ), [styleId, styleName, styleOptions]);
+
+  const targetStyles = useMemo<StyleSummary[]>(() => (
+    (targetStyleIds ?? (styleId ? [styleId] : [])).map(id => ({ id, name: styleNameFor(id) }))
+  ), [targetStyleIds, styleId, styleNameFor]);
+
+  // The scanned style is always on offer, even if the list doesn't include it.
+  const pickerOptions = styleId && !styleOptions.some(style => style.id === styleId)
+    ? [{ id: styleId, name: styleName || styleId }, ...styleOptions]
+    : styleOptions;
+
+  const isForThisScreen = useCallback((job: UploadJob) => (
+    job.profileId === profileId &&
+    (job.styleId === styleId || targetStyles.some(target => target.id === job.styleId))
+  ), [profileId, styleId, targetStyles]);
+
+  // A photo sent to several styles shares one capture id, so its tile sums up
+  // every style's jobs.
+  const captureStateFor = useCallback((uri: string) => {
+    let latest: UploadJob | undefined;
+    jobs.forEach(job => {
+      if (job.sourceUri === uri && isForThisScreen(job)) {
+        latest = job;
+      }
+    });
+    if (!latest) return undefined;
+    const captureId = latest.captureId;
+    return summarizeJobs(jobs.filter(job => job.captureId === captureId));
+  }, [jobs, isForThisScreen]);
+
+  // Bring back files that were still waiting in the queue when the app closed.
+  useEffect(() => {
+    if (!styleId) return;
+    setImages(prev => {
+      const unfinished = jobs.filter(job =>
+        job.styleId === styleId &&
+        job.profileId === profileId &&
+        job.status !== 'done' &&
+        !prev.some(img => img.uri === job.sourceUri)
+      );
+      if (unfinished.length === 0) return prev;
+      return [
+        ...prev,
+        ...unfinished.map((job): ImageAsset => {
+          if (job.mimeType.startsWith('video/')) {
+            return { uri: job.sourceUri, kind: 'video', uploaded: false };
+          }
+          if (!job.mimeType.startsWith('image/')) {
+            return { uri: job.sourceUri, kind: 'document', mimeType: job.mimeType, fileName: job.fileName, uploaded: false };
+          }
+          // Not the queue's copy, which is deleted as soon as the job is done
+          return { uri: job.sourceUri, uploaded: false };
+        }),
+      ];
+    });
+  }, [styleId, profileId, jobs]);
+
+  // The queue is the source of truth for what has been uploaded.
+  useEffect(() => {
+    setImages(prev => prev.map(img => {
+      const state = captureStateFor(img.uri);
+      return state?.status === 'done' && !img.uploaded
+        ? { ...img, uploaded: true, selected: false, receipts: state.receipts }
+        : img;
+    }));
+  }, [captureStateFor]);
+
+  const leaveIfFinished = useCallback(() => {
+    if (images.every(img => img.uploaded || captureStateFor(img.uri)?.status === 'done')) {
+      router.replace('/(tabs)');
+    }
+  }, [images, captureStateFor]);
+
+  // Report once every file in the batch has either finished, been paused or is
+  // waiting on the network or a new scan; those keep going in the background.
+  // Cancelled files drop out of the batch.
+  useEffect(() => {
+    if (activeBatch.length === 0) return;
+    const batchJobs = jobs.filter(job => activeBatch.includes(job.id));
+    const settled = batchJobs.every(job =>
+      job.status === 'done' || job.status === 'failed' || job.status === 'paused' ||
+      job.waitingForNetwork || job.waitingForSession
+    );
+    if (!settled) return;
+
+    const done = batchJobs.filter(job => job.status === 'done').length;
+    const failed = batchJobs.filter(job => job.status === 'failed').length;
+    const paused = batchJobs.filter(job => job.status === 'paused').length;
+    const parked = batchJobs.filter(job => job.waitingForSession).length;
+    const waiting = batchJobs.length - done - failed - paused - parked;
+    setActiveBatch([]);
+    setUploading(false);
+    if (batchJobs.length === 0) return;
+
+    const undoable = batchJobs.filter(job => job.status === 'done' && job.receipt).map(job => job.id);
+    if (undoable.length > 0) {
+      setUndoBatch(undoable);
+    }
+
+    const batchStyleIds = [...new Set(batchJobs.map(job => job.styleId))];
+    if (batchStyleIds.length > 1) {
+      const lines = batchStyleIds.map(id => {
+        const styleJobs = batchJobs.filter(job => job.styleId === id);
+        const styleDone = styleJobs.filter(job => job.status === 'done').length;
+        const styleFailed = styleJobs.filter(job => job.status === 'failed').length;
+        return `${styleNameFor(id)}: ${styleDone} of ${styleJobs.length} uploaded${styleFailed > 0 ? `, ${styleFailed} failed` : ''}`;
+      });
+      Alert.alert(
+        failed > 0 ? 'Upload Failed' : 'Upload Results',
+        lines.join('\n'),
+        [{ text: 'OK', onPress: done === batchJobs.length ? leaveIfFinished : undefined }]
+      );
+    } else if (done === batchJobs.length && undoable.length === 0) {
+      // A fully successful batch is otherwise reported by the undo banner.
+      Alert.alert(
+        'Upload Complete',
+        `Successfully uploaded ${done} files`,
+        [{ text: 'OK', onPress: leaveIfFinished }]
+      );
+    } else if (done < batchJobs.length) {
+      const messages = [`Uploaded ${done} of ${batchJobs.length} files.`];
+      if (waiting > 0) {
+        messages.push(`${waiting} will be sent automatically when the connection returns.`);
+      }
+      if (parked > 0) {
+        messages.push(`${parked} will be sent once you scan the style QR code again.`);
+      }
+      if (paused > 0) {
+        messages.push(`${paused} paused, use Resume Paused to continue them.`);
+      }
+      if (failed > 0) {
+        messages.push(`${failed} could not be uploaded, use Retry Failed to send them again.`);
+      }
+      Alert.alert(failed > 0 ? 'Upload Failed' : 'Upload Paused', messages.join(' '));
+    }
+  }, [jobs, activeBatch, leaveIfFinished, styleNameFor]);
+
+  useEffect(() => {
+    if (undoBatch.length === 0) return;
+    const timer = setTimeout(() => setUndoBatch([]), UNDO_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [undoBatch]);
+
+  const handleUndo = async () => {
+    const batch = undoBatch;
+    setUndoBatch([]);
+    const undone = await undoUploads(batch);
+    const undoneUris = jobs.filter(job => undone.includes(job.id)).map(job => job.sourceUri);
+    setImages(prev => prev.map(img => (
+      undoneUris.includes(img.uri) ? { ...img, uploaded: false, selected: false, receipts: undefined } : img
+    )));
+    if (undone.length < batch.length) {
+      Alert.alert(
+        'Undo Failed',
+        `${batch.length - undone.length} of ${batch.length} files could not be removed from the server.`
+      );
+    }
+  };
 
   const loadStyleInfo = async () => {
     try {
-      const styleId = await AsyncStorage.getItem('styleId');
-      const accessToken = await AsyncStorage.getItem('accessToken');
-      const baseUrl = await AsyncStorage.getItem('baseUrl');
-      
-      const response = await fetch(`${baseUrl}/api/styles/${styleId}`, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Accept': 'application/json',
-        },
-      });
-      
-      const data = await response.json();
-      setStyleName(data.name);
+      const { profileId, styleId } = await getSession();
+      setStyleId(styleId);
+      setStyleName('');
+      setStyleError(null);
+      if (!profileId || !styleId) return;
+
+      const style = await api.getStyle(styleId);
+      setStyleName(style.name);
+      // Hashes of files uploaded from other devices, when the server knows them
+      if (Array.isArray(style.uploads)) {
+        await recordUploadedHashes(profileId, styleId, style.uploads.flatMap(upload => (upload.sourceHash ? [upload.sourceHash] : [])));
+      }
     } catch (error) {
       console.error('Error loading style info:', error);
+      setStyleError((error as Error).message);
+    }
+  };
+
+  // Photos already in the grid, or picked twice in one go, are left out, and
+  // so are videos over the limits.
+  const addImages = (pickedImages: ImageAsset[]) => {
+    const tooBig = pickedImages
+      .map(img => (img.kind === 'video' ? checkVideoLimits(img) : null))
+      .filter((reason): reason is string => reason !== null);
+    if (tooBig.length > 0) {
+      Alert.alert(
+        tooBig.length === 1 ? 'Video Not Added' : `${tooBig.length} Videos Not Added`,
+        tooBig[0]
+      );
+    }
+    const newImages = pickedImages.filter(img => img.kind !== 'video' || checkVideoLimits(img) === null);
+
+    const seen = new Set(images.map(img => img.contentHash).filter(Boolean));
+    const unique = newImages.filter(img => {
+      if (!img.contentHash) return true;
+      if (seen.has(img.contentHash)) return false;
+      seen.add(img.contentHash);
+      return true;
+    });
+
+    setImages(prev => [...prev, ...unique]);
+    const skipped = newImages.length - unique.length;
+    if (skipped > 0) {
+      Alert.alert(
+        'Duplicate Photos',
+        skipped === 1
+          ? '1 photo is already in this upload and was skipped.'
+          : `${skipped} photos are already in this upload and were skipped.`
+      );
     }
   };
 
   const pickImages = async () => {
     const result = await ImagePicker.launchImageLibraryAsync({
-      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      mediaTypes: ImagePicker.MediaTypeOptions.All,
       allowsMultipleSelection: true,
       selectionLimit: 10,
       quality: 1,
     });
 
     if (!result.canceled) {
-      const newImages = result.assets.map(asset => ({
-        uri: asset.uri,
-        uploaded: false,
-        selected: false
-      }));
-      setImages(prev => [...prev, ...newImages]);
+      addImages(await Promise.all(result.assets.map(toImageAsset)));
     }
   };
 
@@ -111,108 +490,202 @@ export default function UploadScreen() {
     // console.log('Camera result:', result);
 
     if (!result.canceled) {
-      const newImage = {
-        uri: result.assets[0].uri,
-        uploaded: false
-      };
-      setImages(prev => [...prev, newImage]);
+      addImages([await toImageAsset(result.assets[0])]);
+    }
+  };
+
+  const pickDocuments = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: DOCUMENT_MIME_TYPES,
+      multiple: true,
+      copyToCacheDirectory: true,
+    });
+
+    if (!result.canceled) {
+      addImages(await Promise.all(result.assets.map(toDocumentAsset)));
+    }
+  };
+
+  const recordVideo = async () => {
+    const { status } = await Camera.requestCameraPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission needed', 'Camera permission is required to record videos');
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Videos,
+      videoMaxDuration: MAX_VIDEO_DURATION_SECONDS,
+      videoQuality: ImagePicker.UIImagePickerControllerQualityType.High,
+    });
+
+    if (!result.canceled) {
+      addImages([await toImageAsset(result.assets[0])]);
     }
   };
 
   const handleUpload = async () => {
-    const selectedImages = images.filter(img => img.selected);
+    let selectedImages = images.filter(img => img.selected && !img.uploaded);
     if (selectedImages.length === 0) {
       Alert.alert('No Images Selected', 'Please select at least one image to upload.');
       return;
     }
+    if (targetStyles.length === 0 || !profileId) {
+      Alert.alert('No Style', 'Scan a style QR code before uploading.');
+      return;
+    }
+
+    // A photo already sent to any of the target styles counts as a duplicate.
+    const uploadedHashes = new Set<string>();
+    for (const target of targetStyles) {
+      (await getUploadedHashes(profileId, target.id)).forEach(hash => uploadedHashes.add(hash));
+    }
+    const duplicates = selectedImages.filter(img => img.contentHash && uploadedHashes.has(img.contentHash));
+    if (duplicates.length > 0) {
+      const choice = await askAboutDuplicates(duplicates.length);
+      if (choice === 'cancel') return;
+      if (choice === 'skip') {
+        selectedImages = selectedImages.filter(img => !duplicates.includes(img));
+        setImages(prev => prev.map(img => (duplicates.includes(img) ? { ...img, selected: false } : img)));
+        if (selectedImages.length === 0) return;
+      }
+    }
     setUploading(true);
 
     try {
-      const styleId = await AsyncStorage.getItem('styleId')
-      const accessToken = await AsyncStorage.getItem('accessToken')
-      const baseUrl = await AsyncStorage.getItem('baseUrl')
-      const uploadUrl = `${baseUrl}/api/styles/${styleId}/files`;
-      
-      const results = await Promise.all(
-        selectedImages.map(async (image) => {
-          if (image.uploaded) return null;
-
-          const formData = new FormData();
-          formData.append('file', {
-            uri: (image.annotations && image.annotations.thumbnailUri) ? image.annotations.thumbnailUri : image.uri,
-            type: 'image/jpeg',
-            name: `upload_${Date.now()}.jpg`,
-          } as any);
-
-          return new Promise((resolve, reject) => {
-            const xhr = new XMLHttpRequest();
-            
-            xhr.upload.onprogress = (event) => {
-              if (event.lengthComputable) {
-                const progress = (event.loaded / event.total) * 100;
-                setUploadProgress(prev => ({
-                  ...prev,
-                  [image.uri]: progress
-                }));
-              }
-            };
-
-            xhr.onload = () => {
-              if (xhr.status === 200) {
-                resolve(image.uri);
-              } else {
-                reject(new Error('Upload failed'));
-              }
-            };
-
-            xhr.onerror = () => {
-              reject(new Error('Upload failed'));
-            };
-
-            xhr.open('POST', uploadUrl);
-            xhr.setRequestHeader('Accept', 'application/json');
-            xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
-            xhr.send(formData);
-          });
-        })
-      );
+      const date = new Date();
+      const requests = await Promise.all(selectedImages.map(async (image, index): Promise<UploadRequest[]> => {
+        // Shared by every style the photo goes to, the server links the
+        // original and annotated render within each style.
+        const captureId = createUploadId();
+        const fields = {
+          ...metadataFields(image.metadata),
+          ...(image.contentHash ? { sourceHash: image.contentHash } : {}),
+        };
+        const nameFor = (target: StyleSummary, variant: string, type: FileType) => renderFileName(settings.fileNameTemplate, {
+          styleName: target.name,
+          styleId: target.id,
+          view: image.metadata?.view,
+          variant,
+          index: index + 1,
+          date,
+          original: image.fileName?.replace(/\.[^.]+$/, ''),
+        }, type.extension);
+        const baseFor = (target: StyleSummary) => ({
+          sourceUri: image.uri,
+          styleId: target.id,
+          profileId,
+          captureId,
+          priority: image.isCover ? 1 : 0,
+        });
 
-      const successfulUploads = results.filter(result => result !== null).length;
-      
-      setImages(prev => prev.map(img => ({
-        ...img,
-        uploaded: results.includes(img.uri) || img.uploaded
-      })));
+        if (image.kind === 'video' || image.kind === 'document') {
+          const type = detectFileType({ uri: image.uri, mimeType: image.mimeType, fileName: image.fileName });
+          return targetStyles.map(target => ({
+            ...baseFor(target),
+            fileUri: image.uri,
+            // A document's own name usually says what it is, e.g. a tech pack
+            fileName: image.kind === 'document' && image.fileName ? image.fileName : nameFor(target, 'original', type),
+            mimeType: type.mimeType,
+            fields,
+          }));
+        }
 
-      Alert.alert(
-        'Upload Complete', 
-        `Successfully uploaded ${successfulUploads} images`,
-        [
-          {
-            text: 'OK',
-            onPress: () => {
-              if (images.every(img => img.uploaded)) {
-                router.replace('/(tabs)');
-              }
-            }
+        // Files are prepared once and the same copy goes to every style.
+        const sendOriginal = !image.annotations?.thumbnailUri || settings.uploadOriginalWithAnnotated;
+        const prepared = sendOriginal ? await applyUploadPreset(image.uri, image, preset) : null;
+        const original = prepared && settings.stripPhotoMetadata
+          ? await sanitizePhotoFile(prepared.uri, prepared.type)
+          : prepared;
+
+        return targetStyles.flatMap(target => {
+          const styleRequests: UploadRequest[] = [];
+          if (original) {
+            styleRequests.push({
+              ...baseFor(target),
+              fileUri: original.uri,
+              fileName: nameFor(target, 'original', original.type),
+              mimeType: original.type.mimeType,
+              fields: { ...fields, captureId, variant: 'original' },
+            });
           }
-        ]
-      );
+          if (image.annotations?.thumbnailUri) {
+            // Annotated renders are screen-sized already, only originals get the preset
+            const renderType = detectFileType({ uri: image.annotations.thumbnailUri });
+            styleRequests.push({
+              ...baseFor(target),
+              fileUri: image.annotations.thumbnailUri,
+              fileName: nameFor(target, 'annotated', renderType),
+              mimeType: renderType.mimeType,
+              fields: { ...fields, captureId, variant: 'annotated' },
+              annotations: buildAnnotationSidecar(image.annotations, image),
+            });
+          }
+          return styleRequests;
+        });
+      }));
+      const ids = await enqueueUploads(requests.flat());
+      setActiveBatch(ids);
     } catch (error) {
       console.error('Upload error:', error);
       Alert.alert('Upload Failed', 'Some images could not be uploaded. Please try again.');
-    } finally {
       setUploading(false);
-      // Clear progress after upload completes
-      setUploadProgress({});
     }
   };
 
+  // Estimate what the preset saves on the files about to be sent.
+  const pendingImages = images.filter(img => !img.uploaded && (img.selected || !images.some(other => other.selected)));
+  const originalBytes = pendingImages.reduce((total, img) => total + (img.fileSize ?? 0), 0);
+  const presetBytes = pendingImages.reduce((total, img) => (
+    total + (img.kind === 'video' || img.kind === 'document' ? img.fileSize ?? 0 : estimatePresetSize(img, preset))
+  ), 0);
+
+  const failedJobs = jobs.filter(job =>
+    job.status === 'failed' && isForThisScreen(job) && images.some(img => img.uri === job.sourceUri)
+  );
+
+  const handleRetryFailed = async () => {
+    const ids = failedJobs.map(job => job.id);
+    setUploading(true);
+    setActiveBatch(ids);
+    await retryFailedUploads(ids);
+  };
+
+  const pausedJobs = jobs.filter(job =>
+    job.status === 'paused' && isForThisScreen(job) && images.some(img => img.uri === job.sourceUri)
+  );
+
+  const handleResumePaused = async () => {
+    const ids = pausedJobs.map(job => job.id);
+    setUploading(true);
+    setActiveBatch(ids);
+    await resumeUploads(ids);
+  };
+
+  // Both halves of a pair are cancelled together so the photo goes back to
+  // being an unselected, not uploaded tile.
+  const handleCancelJobs = async (cancelled: UploadJob[]) => {
+    const captureIds = cancelled.map(job => job.captureId);
+    const captureJobs = jobs.filter(job => captureIds.includes(job.captureId) && job.status !== 'done');
+    const sourceUris = captureJobs.map(job => job.sourceUri);
+    await cancelUploads(captureJobs.map(job => job.id));
+    setImages(prev => prev.map(img => (
+      sourceUris.includes(img.uri) ? { ...img, selected: false, uploaded: false } : img
+    )));
+  };
+
   const removeImage = (index: number) => {
+    const waiting = jobs.filter(job =>
+      job.sourceUri === images[index].uri && isForThisScreen(job) && job.status !== 'done'
+    );
+    if (waiting.length > 0) {
+      cancelUploads(waiting.map(job => job.id));
+    }
     setImages(prev => prev.filter((_, idx) => idx !== index));
   };
 
   const handleImagePress = async (index: number) => {
+    if (images[index].kind === 'video' || images[index].kind === 'document') return;
     setSelectedImageIndex(index);
     // console.log('Selected image index:', index);
     // console.log('image:', images);
@@ -257,67 +730,166 @@ export default function UploadScreen() {
     }
   };
 
+  const handleMetadataSave = (metadata: ImageMetadata) => {
+    setImages(prev => prev.map((img, idx) => (
+      idx === metadataIndex ? { ...img, metadata } : img
+    )));
+    setMetadataIndex(null);
+  };
+
   const toggleImageSelection = (index: number) => {
     setImages(prev => prev.map((img, idx) => 
       idx === index ? { ...img, selected: !img.selected } : img
     ));
   };
 
-  const renderImage = (image: ImageAsset, index: number) => (
-    <TouchableOpacity 
-      key={index} 
-      style={[styles.imageContainer, image.selected && styles.selectedImageContainer]}
-      onLongPress={() => handleImagePress(index)}
-      onPress={() => toggleImageSelection(index)}
-    >
-      <Image 
-        source={{ uri: (image.annotations && image.annotations.thumbnailUri) ? image.annotations.thumbnailUri : image.uri }} 
-        style={styles.imagePreview} 
-      />
-      
-      {image.selected && (
-        <View style={styles.selectionBadge}>
-          <Ionicons name="checkmark-circle" size={24} color={theme.colors.primary} />
-        </View>
-      )}
+  // Only one image can be the cover, it is sent ahead of the rest.
+  const toggleCover = (index: number) => {
+    setImages(prev => prev.map((img, idx) => ({
+      ...img,
+      isCover: idx === index ? !img.isCover : false,
+    })));
+  };
+
+  const renderImage = (image: ImageAsset, index: number) => {
+    const job = captureStateFor(image.uri);
+    const progress = job?.status === 'uploading' ? job.progress : undefined;
+
+    return (
       <TouchableOpacity 
-        style={styles.removeButton}
-        onPress={() => removeImage(index)}
+        key={index} 
+        style={[styles.imageContainer, image.selected && styles.selectedImageContainer]}
+        onLongPress={() => handleImagePress(index)}
+        onPress={() => toggleImageSelection(index)}
       >
-        <Ionicons name="close-circle" size={24} color={theme.colors.error} />
+        {missingPreviews.includes(image.uri) ? (
+          <View style={[styles.imagePreview, styles.documentTile]}>
+            <Ionicons name="image-outline" size={32} color={theme.colors.textSecondary} />
+          </View>
+        ) : image.kind === 'document' ? (
+          <View style={[styles.imagePreview, styles.documentTile]}>
+            <Ionicons
+              name={image.mimeType === 'application/pdf' ? 'document-text-outline' : 'document-outline'}
+              size={32}
+              color={theme.colors.textSecondary}
+            />
+            <ThemedText style={styles.documentName} numberOfLines={2}>{image.fileName}</ThemedText>
+          </View>
+        ) : (
+          <Image 
+            source={{ uri: (image.annotations && image.annotations.thumbnailUri) ? image.annotations.thumbnailUri : image.thumbnailUri || image.uri }} 
+            style={styles.imagePreview} 
+            onError={() => setMissingPreviews(prev => [...prev, image.uri])}
+          />
+        )}
+      
+        {image.selected && (
+          <View style={styles.selectionBadge}>
+            <Ionicons name="checkmark-circle" size={24} color={theme.colors.primary} />
+          </View>
+        )}
+        <TouchableOpacity 
+          style={styles.removeButton}
+          onPress={() => removeImage(index)}
+        >
+          <Ionicons name="close-circle" size={24} color={theme.colors.error} />
+        </TouchableOpacity>
+        {image.kind === 'video' && (
+          <View style={styles.videoOverlay} pointerEvents="none">
+            <Ionicons name="play-circle" size={32} color={theme.colors.surface} />
+            {image.duration ? (
+              <ThemedText style={styles.videoDuration}>{formatDuration(image.duration / 1000)}</ThemedText>
+            ) : null}
+          </View>
+        )}
+        {!image.uploaded && (image.kind ?? 'image') === 'image' && (
+          <TouchableOpacity 
+            style={styles.coverButton}
+            onPress={() => toggleCover(index)}
+          >
+            <Ionicons name={image.isCover ? 'star' : 'star-outline'} size={18} color={theme.colors.warning} />
+          </TouchableOpacity>
+        )}
+        {image.uploaded && (
+          <View style={styles.uploadedBadge}>
+            <ThemedText style={styles.uploadedText}>Uploaded</ThemedText>
+          </View>
+        )}
+        {job && !image.uploaded && jobStatusLabel(job) && (
+          <View
+            style={[
+              styles.uploadedBadge,
+              job.status === 'failed'
+                ? styles.failedBadge
+                : job.status === 'retrying' ? styles.retryingBadge : styles.queuedBadge,
+            ]}
+          >
+            <ThemedText style={styles.uploadedText}>{jobStatusLabel(job)}</ThemedText>
+          </View>
+        )}
+        {!image.uploaded && (
+          <TouchableOpacity 
+            style={styles.metadataButton}
+            onPress={() => setMetadataIndex(index)}
+          >
+            <Ionicons
+              name={image.metadata?.view || image.metadata?.caption || image.metadata?.tags.length ? 'pricetag' : 'pricetag-outline'}
+              size={16}
+              color={theme.colors.primary}
+            />
+          </TouchableOpacity>
+        )}
+        {image.hasAnnotations && (
+          <View style={styles.annotationBadge}>
+            <Ionicons name="create" size={16} color={theme.colors.primary} />
+          </View>
+        )}
+        {progress !== undefined && !image.uploaded && (
+          <View style={styles.progressBarContainer}>
+            <View style={[styles.progressBar, { width: `${progress}%` }]} />
+            <ThemedText style={styles.progressText}>
+              {Math.round(progress)}%
+            </ThemedText>
+          </View>
+        )}
       </TouchableOpacity>
-      {image.uploaded && (
-        <View style={styles.uploadedBadge}>
-          <ThemedText style={styles.uploadedText}>Uploaded</ThemedText>
-        </View>
-      )}
-      {image.hasAnnotations && (
-        <View style={styles.annotationBadge}>
-          <Ionicons name="create" size={16} color={theme.colors.primary} />
-        </View>
-      )}
-      {uploadProgress[image.uri] !== undefined && !image.uploaded && (
-        <View style={styles.progressBarContainer}>
-          <View style={[styles.progressBar, { width: `${uploadProgress[image.uri]}%` }]} />
-          <ThemedText style={styles.progressText}>
-            {Math.round(uploadProgress[image.uri])}%
-          </ThemedText>
-        </View>
-      )}
-    </TouchableOpacity>
-  );
+    );
+  };
 
   return (
     <ThemedView style={styles.container}>
       <View style={styles.header}>
-        <View>
+        <View style={styles.headerTitle}>
           <ThemedText style={styles.title}>Upload Files</ThemedText>
-          {styleName && (
+          {styleName && targetStyles.length <= 1 && (
             <ThemedText style={styles.subtitle}>Style: {styleName}</ThemedText>
           )}
+          {!styleName && styleError && targetStyles.length <= 1 && (
+            <ThemedText style={[styles.subtitle, styles.styleError]} numberOfLines={2}>
+              {`Style ${styleId}: ${styleError}`}
+            </ThemedText>
+          )}
+          {targetStyles.length > 1 && (
+            <ThemedText style={styles.subtitle} numberOfLines={1}>
+              {`${targetStyles.length} styles: ${targetStyles.map(target => target.name).join(', ')}`}
+            </ThemedText>
+          )}
+          <ProfileSwitcher />
+        </View>
+        <View style={styles.headerActions}>
+          {pickerOptions.length > 1 && (
+            <TouchableOpacity onPress={() => setShowStylePicker(true)}>
+              <Ionicons name="albums-outline" size={24} color={theme.colors.text} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => router.push('/settings')}>
+            <Ionicons name="settings-outline" size={24} color={theme.colors.text} />
+          </TouchableOpacity>
         </View>
       </View>
 
+      <SessionExpiredBanner />
+
       <View style={styles.content}>
         {images.length > 0 ? (
           <View style={styles.imageGrid}>
@@ -338,14 +910,63 @@ export default function UploadScreen() {
             <ThemedText style={styles.secondaryButtonText}>Choose Photos</ThemedText>
           </TouchableOpacity>
 
+          <TouchableOpacity 
+            style={[styles.button, styles.secondaryButton]} 
+            onPress={pickDocuments}
+          >
+            <ThemedText style={styles.secondaryButtonText}>Choose File</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.buttonContainer, styles.buttonRow]}>
           <TouchableOpacity 
             style={styles.button} 
             onPress={takePhoto}
           >
             <ThemedText style={styles.buttonText}>Take Photo</ThemedText>
           </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={styles.button} 
+            onPress={recordVideo}
+          >
+            <ThemedText style={styles.buttonText}>Record Video</ThemedText>
+          </TouchableOpacity>
         </View>
 
+        {images.length > 0 && (
+          <View style={styles.presetSection}>
+            <View style={styles.presetRow}>
+              {UPLOAD_PRESETS.map(option => (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[styles.presetChip, option.id === preset.id && styles.presetChipActive]}
+                  onPress={() => updateSettings({ uploadPreset: option.id })}
+                >
+                  <ThemedText style={[styles.presetChipText, option.id === preset.id && styles.presetChipTextActive]}>
+                    {option.label}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {preset.maxDimension !== null && originalBytes > 0 && (
+              <ThemedText style={styles.presetEstimate}>
+                {`Est. ${formatBytes(originalBytes)} → ${formatBytes(presetBytes)} (${Math.round((1 - presetBytes / originalBytes) * 100)}% smaller)`}
+              </ThemedText>
+            )}
+          </View>
+        )}
+
+        {images.some(img => img.hasAnnotations && !img.uploaded) && (
+          <View style={styles.optionRow}>
+            <ThemedText style={styles.optionText}>Also upload originals of annotated photos</ThemedText>
+            <Switch
+              value={settings.uploadOriginalWithAnnotated}
+              onValueChange={value => updateSettings({ uploadOriginalWithAnnotated: value })}
+            />
+          </View>
+        )}
+
         {images.length > 0 && (
           <TouchableOpacity 
             style={[styles.uploadButton, uploading && styles.uploadingButton]} 
@@ -357,8 +978,49 @@ export default function UploadScreen() {
             </ThemedText>
           </TouchableOpacity>
         )}
+
+        {failedJobs.length > 0 && !uploading && (
+          <TouchableOpacity 
+            style={[styles.uploadButton, styles.retryButton]} 
+            onPress={handleRetryFailed}
+          >
+            <ThemedText style={styles.uploadButtonText}>
+              {`Retry ${failedJobs.length} Failed`}
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+
+        {pausedJobs.length > 0 && !uploading && (
+          <TouchableOpacity 
+            style={styles.uploadButton} 
+            onPress={handleResumePaused}
+          >
+            <ThemedText style={styles.uploadButtonText}>
+              {`Resume ${pausedJobs.length} Paused`}
+            </ThemedText>
+          </TouchableOpacity>
+        )}
       </View>
 
+      {undoBatch.length > 0 && (
+        <View style={styles.undoBanner}>
+          <ThemedText style={styles.undoText}>
+            {undoBatch.length === 1 ? 'Uploaded 1 file' : `Uploaded ${undoBatch.length} files`}
+          </ThemedText>
+          <TouchableOpacity onPress={handleUndo}>
+            <ThemedText style={styles.undoAction}>Undo</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => {
+              setUndoBatch([]);
+              leaveIfFinished();
+            }}
+          >
+            <ThemedText style={styles.undoAction}>Done</ThemedText>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {showAnnotator && selectedImageIndex !== null && (
         <ImageAnnotator
           imageUri={images[selectedImageIndex].uri}
@@ -372,6 +1034,28 @@ export default function UploadScreen() {
         />
       )}
 
+      <StylePickerSheet
+        visible={showStylePicker}
+        styles={pickerOptions}
+        selectedIds={targetStyles.map(target => target.id)}
+        onClose={() => setShowStylePicker(false)}
+        onSave={ids => {
+          setTargetStyleIds(ids);
+          setShowStylePicker(false);
+        }}
+      />
+
+      {metadataIndex !== null && (
+        <ImageMetadataSheet
+          visible={metadataIndex !== null}
+          imageUri={images[metadataIndex].thumbnailUri || images[metadataIndex].uri}
+          metadata={images[metadataIndex].metadata}
+          categories={categories}
+          onClose={() => setMetadataIndex(null)}
+          onSave={handleMetadataSave}
+        />
+      )}
+
       <Modal
         visible={uploading}
         transparent={true}
@@ -380,17 +1064,38 @@ export default function UploadScreen() {
         <View style={styles.modalOverlay}>
           <View style={styles.progressDialog}>
             <ThemedText style={styles.progressTitle}>Uploading Images</ThemedText>
+            {overallProgress.bytesTotal > 0 && (
+              <ThemedText style={styles.progressSummary}>
+                {`${formatBytes(overallProgress.bytesSent)} of ${formatBytes(overallProgress.bytesTotal)}`}
+                {overallProgress.etaSeconds !== null && ` · about ${formatDuration(overallProgress.etaSeconds)} left`}
+              </ThemedText>
+            )}
             
-            {Object.entries(uploadProgress).map(([uri, progress]) => (
-              <View key={uri} style={styles.progressItem}>
+            {jobs.filter(job => activeBatch.includes(job.id)).map(job => (
+              <View key={job.id} style={styles.progressItem}>
                 <Image 
-                  source={{ uri }} 
+                  source={{ uri: job.fileUri }} 
                   style={styles.progressThumb} 
                 />
                 <View style={styles.progressBarContainer}>
-                  <View style={[styles.progressBar, { width: `${progress}%` }]} />
-                  <ThemedText style={styles.progressText}>{Math.round(progress)}%</ThemedText>
+                  <View style={[styles.progressBar, { width: `${job.progress}%` }]} />
+                  <ThemedText style={styles.progressText}>
+                    {job.status === 'uploading' ? `${Math.round(job.progress)}%` : jobStatusLabel(job)}
+                  </ThemedText>
                 </View>
+                {job.status !== 'done' && (
+                  <TouchableOpacity
+                    style={styles.progressAction}
+                    onPress={() => (job.status === 'paused' ? resumeUploads([job.id]) : pauseUploads([job.id]))}
+                  >
+                    <Ionicons name={job.status === 'paused' ? 'play' : 'pause'} size={20} color={theme.colors.primary} />
+                  </TouchableOpacity>
+                )}
+                {job.status !== 'done' && (
+                  <TouchableOpacity style={styles.progressAction} onPress={() => handleCancelJobs([job])}>
+                    <Ionicons name="close-circle" size={20} color={theme.colors.error} />
+                  </TouchableOpacity>
+                )}
               </View>
             ))}
 
@@ -398,6 +1103,21 @@ export default function UploadScreen() {
               style={styles.progressSpinner} 
               color={theme.colors.primary} 
             />
+
+            <View style={styles.progressActions}>
+              <TouchableOpacity
+                style={[styles.button, styles.secondaryButton]}
+                onPress={() => pauseUploads(activeBatch)}
+              >
+                <ThemedText style={styles.secondaryButtonText}>Pause All</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelAllButton]}
+                onPress={() => handleCancelJobs(jobs.filter(job => activeBatch.includes(job.id)))}
+              >
+                <ThemedText style={styles.buttonText}>Cancel All</ThemedText>
+              </TouchableOpacity>
+            </View>
           </View>
         </View>
       </Modal>
@@ -411,11 +1131,22 @@ const styles = StyleSheet.create({
     backgroundColor: theme.colors.background,
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     padding: theme.spacing.lg,
     backgroundColor: theme.colors.surface,
     borderBottomWidth: 1,
     borderBottomColor: theme.colors.border,
   },
+  headerTitle: {
+    flex: 1,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: theme.spacing.md,
+    marginLeft: theme.spacing.md,
+  },
   title: {
     fontSize: 20,
     fontWeight: '600',
@@ -426,6 +1157,9 @@ const styles = StyleSheet.create({
     color: theme.colors.textSecondary,
     marginTop: 4,
   },
+  styleError: {
+    color: theme.colors.error,
+  },
   content: {
     flex: 1,
     padding: theme.spacing.lg,
@@ -456,6 +1190,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: theme.spacing.md,
   },
+  buttonRow: {
+    marginTop: theme.spacing.md,
+  },
   button: {
     flex: 1,
     backgroundColor: theme.colors.primary,
@@ -502,6 +1239,15 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     zIndex: 1,
   },
+  coverButton: {
+    position: 'absolute',
+    top: -10,
+    right: 18,
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    padding: 3,
+    zIndex: 1,
+  },
   uploadedBadge: {
     position: 'absolute',
     bottom: 0,
@@ -515,6 +1261,64 @@ const styles = StyleSheet.create({
     color: theme.colors.surface,
     fontWeight: '500',
   },
+  queuedBadge: {
+    backgroundColor: theme.colors.textSecondary + '99',
+  },
+  retryingBadge: {
+    backgroundColor: theme.colors.warning + '99',
+  },
+  failedBadge: {
+    backgroundColor: theme.colors.error + 'CC',
+  },
+  retryButton: {
+    backgroundColor: theme.colors.error,
+  },
+  presetSection: {
+    marginTop: theme.spacing.md,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  presetChip: {
+    flex: 1,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+    alignItems: 'center',
+  },
+  presetChipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  presetChipText: {
+    fontSize: 13,
+    color: theme.colors.text,
+  },
+  presetChipTextActive: {
+    color: theme.colors.surface,
+    fontWeight: '500',
+  },
+  presetEstimate: {
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+    textAlign: 'center',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: theme.spacing.md,
+    gap: theme.spacing.md,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.colors.text,
+  },
   uploadButton: {
     backgroundColor: theme.colors.primary,
     padding: theme.spacing.md,
@@ -530,6 +1334,29 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  documentTile: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: theme.spacing.xs,
+  },
+  documentName: {
+    fontSize: 11,
+    textAlign: 'center',
+    marginTop: theme.spacing.xs,
+  },
+  videoOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  videoDuration: {
+    fontSize: 12,
+    color: theme.colors.surface,
+    fontWeight: '600',
+  },
   annotationBadge: {
     position: 'absolute',
     bottom: -10,
@@ -538,6 +1365,15 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     padding: 4,
   },
+  metadataButton: {
+    position: 'absolute',
+    bottom: -10,
+    left: 18,
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    padding: 4,
+    zIndex: 1,
+  },
   thumbnailContainer: {
     height: 100, // Set a height for the thumbnail
     overflow: 'hidden',
@@ -607,6 +1443,13 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.lg,
     textAlign: 'center',
   },
+  progressSummary: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginTop: -theme.spacing.md,
+    marginBottom: theme.spacing.md,
+    textAlign: 'center',
+  },
   progressItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -640,4 +1483,35 @@ const styles = StyleSheet.create({
   progressSpinner: {
     marginTop: theme.spacing.lg,
   },
+  progressAction: {
+    marginLeft: theme.spacing.sm,
+  },
+  progressActions: {
+    flexDirection: 'row',
+    gap: theme.spacing.md,
+    marginTop: theme.spacing.lg,
+  },
+  cancelAllButton: {
+    backgroundColor: theme.colors.error,
+  },
+  undoBanner: {
+    position: 'absolute',
+    left: theme.spacing.lg,
+    right: theme.spacing.lg,
+    bottom: theme.spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.lg,
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+  },
+  undoText: {
+    flex: 1,
+    color: theme.colors.surface,
+  },
+  undoAction: {
+    color: theme.colors.surface,
+    fontWeight: '600',
+  },
 });
@@ -59,6 +59,8 @@ interface AnnotationData {
   rectangles: RectAnnotation[];
   measurements: MeasurementAnnotation[];
   thumbnailUri: string;
+  // Size of the canvas the coordinates above were drawn in
+  canvas?: { width: number; height: number };
 }
 
 interface SelectedAnnotation {
@@ -156,6 +158,7 @@ export function ImageAnnotator({ imageUri, visible, onClose, onSave, initialAnno
   });
 
   const imageAnnotatorRef = useRef<View>(null); 
+  const [canvasSize, setCanvasSize] = useState<{ width: number; height: number } | undefined>();
   const panResponder = useMemo(
     () =>
       PanResponder.create({
@@ -554,6 +557,7 @@ export function ImageAnnotator({ imageUri, visible, onClose, onSave, initialAnno
         rectangles,
         measurements,
         thumbnailUri,
+        canvas: canvasSize,
       };
       await onSave(annotationData);
       setHasUnsavedChanges(false);
@@ -744,6 +748,10 @@ export function ImageAnnotator({ imageUri, visible, onClose, onSave, initialAnno
         <View 
           ref={imageAnnotatorRef}
           style={styles.canvas}
+          onLayout={event => setCanvasSize({
+            width: event.nativeEvent.layout.width,
+            height: event.nativeEvent.layout.height,
+          })}
           {...panResponder.panHandlers}
         >
           <Image source={{ uri: imageUri }} style={styles.image} resizeMode="contain" />
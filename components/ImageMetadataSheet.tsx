@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, View, StyleSheet, TouchableOpacity, TextInput, Image, KeyboardAvoidingView, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '@/app/styles/theme';
+import { ThemedText } from './ThemedText';
+import { FileCategory } from '@/lib/fileCategories';
+
+export interface ImageMetadata {
+  view?: string;
+  caption?: string;
+  tags: string[];
+}
+
+interface Props {
+  visible: boolean;
+  imageUri: string;
+  metadata?: ImageMetadata;
+  categories: FileCategory[];
+  onClose: () => void;
+  onSave: (metadata: ImageMetadata) => void;
+}
+
+export function ImageMetadataSheet({ visible, imageUri, metadata, categories, onClose, onSave }: Props) {
+  const [view, setView] = useState<string | undefined>(metadata?.view);
+  const [caption, setCaption] = useState(metadata?.caption ?? '');
+  const [tags, setTags] = useState<string[]>(metadata?.tags ?? []);
+  const [tagInput, setTagInput] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setView(metadata?.view);
+      setCaption(metadata?.caption ?? '');
+      setTags(metadata?.tags ?? []);
+      setTagInput('');
+    }
+  }, [visible, metadata]);
+
+  // Commas and the return key both finish a tag.
+  const addTags = (text: string) => {
+    const newTags = text.split(',').map(tag => tag.trim()).filter(Boolean);
+    setTags(prev => [...prev, ...newTags.filter(tag => !prev.includes(tag))]);
+    setTagInput('');
+  };
+
+  const handleTagInput = (text: string) => {
+    if (text.includes(',')) {
+      addTags(text);
+    } else {
+      setTagInput(text);
+    }
+  };
+
+  const handleSave = () => {
+    const pendingTags = tagInput.split(',').map(tag => tag.trim()).filter(tag => tag && !tags.includes(tag));
+    onSave({
+      view,
+      caption: caption.trim() || undefined,
+      tags: [...tags, ...pendingTags],
+    });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onClose}>
+              <ThemedText style={styles.headerButtonText}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <ThemedText style={styles.title}>Image Details</ThemedText>
+            <TouchableOpacity onPress={handleSave}>
+              <ThemedText style={[styles.headerButtonText, styles.saveText]}>Save</ThemedText>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.body}>
+            <Image source={{ uri: imageUri }} style={styles.thumbnail} />
+
+            <ThemedText style={styles.label}>View</ThemedText>
+            <View style={styles.chips}>
+              {categories.map(category => (
+                <TouchableOpacity
+                  key={category.id}
+                  style={[styles.chip, view === category.id && styles.chipActive]}
+                  onPress={() => setView(view === category.id ? undefined : category.id)}
+                >
+                  <ThemedText style={[styles.chipText, view === category.id && styles.chipTextActive]}>
+                    {category.name}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <ThemedText style={styles.label}>Caption</ThemedText>
+            <TextInput
+              style={[styles.input, styles.captionInput]}
+              value={caption}
+              onChangeText={setCaption}
+              placeholder="What does this photo show?"
+              placeholderTextColor={theme.colors.textSecondary}
+              multiline
+            />
+
+            <ThemedText style={styles.label}>Tags</ThemedText>
+            {tags.length > 0 && (
+              <View style={styles.chips}>
+                {tags.map(tag => (
+                  <TouchableOpacity
+                    key={tag}
+                    style={[styles.chip, styles.tagChip]}
+                    onPress={() => setTags(prev => prev.filter(existing => existing !== tag))}
+                  >
+                    <ThemedText style={styles.chipText}>{tag}</ThemedText>
+                    <Ionicons name="close" size={14} color={theme.colors.textSecondary} />
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            <TextInput
+              style={styles.input}
+              value={tagInput}
+              onChangeText={handleTagInput}
+              onSubmitEditing={() => addTags(tagInput)}
+              placeholder="Add tags, separated by commas"
+              placeholderTextColor={theme.colors.textSecondary}
+              autoCapitalize="none"
+              returnKeyType="done"
+              blurOnSubmit={false}
+            />
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  sheet: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.lg,
+    borderTopRightRadius: theme.borderRadius.lg,
+    paddingBottom: theme.spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    paddingHorizontal: theme.spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  headerButtonText: {
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+  },
+  saveText: {
+    color: theme.colors.primary,
+    fontWeight: '600',
+  },
+  body: {
+    padding: theme.spacing.lg,
+  },
+  thumbnail: {
+    width: 80,
+    height: 80,
+    borderRadius: theme.borderRadius.sm,
+    alignSelf: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  chip: {
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  chipTextActive: {
+    color: theme.colors.surface,
+  },
+  tagChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    backgroundColor: theme.colors.background,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.sm,
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  captionInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+});
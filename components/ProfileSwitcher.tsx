@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Modal, View, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '@/app/styles/theme';
+import { ThemedText } from './ThemedText';
+import { useProfiles } from '@/hooks/useProfiles';
+import { switchProfile } from '@/lib/session';
+
+// Shows which server the screen is working against and lets the user move to
+// another one they have scanned a QR code for.
+export function ProfileSwitcher() {
+  const { profiles, activeProfileId } = useProfiles();
+  const [visible, setVisible] = useState(false);
+  const active = profiles.find(profile => profile.id === activeProfileId);
+
+  if (!active) {
+    return null;
+  }
+
+  const choose = (profileId: string) => {
+    setVisible(false);
+    if (profileId !== activeProfileId) {
+      switchProfile(profileId);
+    }
+  };
+
+  const addServer = () => {
+    setVisible(false);
+    router.push('/scanner');
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.trigger} onPress={() => setVisible(true)}>
+        <Ionicons name="server-outline" size={14} color={theme.colors.textSecondary} />
+        <ThemedText style={styles.triggerText} numberOfLines={1}>{active.name}</ThemedText>
+        <Ionicons name="chevron-down" size={14} color={theme.colors.textSecondary} />
+      </TouchableOpacity>
+
+      <Modal visible={visible} animationType="slide" transparent onRequestClose={() => setVisible(false)}>
+        <View style={styles.overlay}>
+          <View style={styles.sheet}>
+            <View style={styles.header}>
+              <ThemedText style={styles.title}>Servers</ThemedText>
+              <TouchableOpacity onPress={() => setVisible(false)}>
+                <ThemedText style={styles.headerButtonText}>Close</ThemedText>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.list}>
+              {profiles.map(profile => (
+                <TouchableOpacity key={profile.id} style={styles.row} onPress={() => choose(profile.id)}>
+                  <View style={styles.details}>
+                    <ThemedText style={styles.name}>{profile.name}</ThemedText>
+                    <ThemedText style={styles.url} numberOfLines={1}>
+                      {profile.expired ? `${profile.baseUrl} · link expired` : profile.baseUrl}
+                    </ThemedText>
+                  </View>
+                  <Ionicons
+                    name={profile.id === activeProfileId ? 'checkmark-circle' : 'ellipse-outline'}
+                    size={24}
+                    color={profile.id === activeProfileId ? theme.colors.primary : theme.colors.border}
+                  />
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity style={styles.row} onPress={addServer}>
+                <Ionicons name="qr-code-outline" size={20} color={theme.colors.primary} />
+                <ThemedText style={styles.addText}>Add a server by scanning its QR code</ThemedText>
+              </TouchableOpacity>
+              <ThemedText style={styles.note}>
+                Each server is listed once. Scanning a code from a server that is already here replaces its upload link.
+              </ThemedText>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  trigger: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+    alignSelf: 'flex-start',
+    maxWidth: 200,
+    marginTop: theme.spacing.xs,
+  },
+  triggerText: {
+    flexShrink: 1,
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  sheet: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.lg,
+    borderTopRightRadius: theme.borderRadius.lg,
+    paddingBottom: theme.spacing.xl,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    paddingHorizontal: theme.spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  headerButtonText: {
+    fontSize: 16,
+    color: theme.colors.primary,
+  },
+  list: {
+    paddingHorizontal: theme.spacing.lg,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    paddingVertical: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  details: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  url: {
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+  },
+  addText: {
+    flex: 1,
+    fontSize: 16,
+    color: theme.colors.primary,
+  },
+  note: {
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    paddingVertical: theme.spacing.md,
+  },
+});
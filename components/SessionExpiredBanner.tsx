@@ -0,0 +1,67 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '@/app/styles/theme';
+import { ThemedText } from './ThemedText';
+import { useSession } from '@/hooks/useSession';
+
+// Shown while the server refuses the scanned token. Queued uploads wait and
+// carry on by themselves after a new scan.
+export function SessionExpiredBanner() {
+  const session = useSession();
+
+  if (!session?.expired) {
+    return null;
+  }
+
+  return (
+    <View style={styles.banner}>
+      <Ionicons name="time-outline" size={20} color={theme.colors.warning} />
+      <View style={styles.text}>
+        <ThemedText style={styles.title}>Upload link expired</ThemedText>
+        <ThemedText style={styles.message}>
+          Scan the style QR code again. Anything waiting to upload will continue afterwards.
+        </ThemedText>
+      </View>
+      <TouchableOpacity style={styles.button} onPress={() => router.push('/scanner')}>
+        <ThemedText style={styles.buttonText}>Scan</ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    padding: theme.spacing.md,
+    margin: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.warning,
+    borderRadius: theme.borderRadius.md,
+  },
+  text: {
+    flex: 1,
+  },
+  title: {
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  message: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+  },
+  button: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.borderRadius.sm,
+  },
+  buttonText: {
+    color: theme.colors.surface,
+    fontWeight: '500',
+  },
+});
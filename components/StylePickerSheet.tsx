@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Modal, View, StyleSheet, TouchableOpacity, ScrollView, Image } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '@/app/styles/theme';
+import { ThemedText } from './ThemedText';
+import { StyleSummary } from '@/lib/api';
+
+interface Props {
+  visible: boolean;
+  styles: StyleSummary[];
+  selectedIds: string[];
+  onClose: () => void;
+  onSave: (styleIds: string[]) => void;
+}
+
+export function StylePickerSheet({ visible, styles: styleOptions, selectedIds, onClose, onSave }: Props) {
+  const [selected, setSelected] = useState<string[]>(selectedIds);
+  const [wasVisible, setWasVisible] = useState(visible);
+
+  // Starts from the current targets each time the sheet opens. While it's
+  // open the parent keeps re-rendering, which mustn't undo the user's picks.
+  if (visible !== wasVisible) {
+    setWasVisible(visible);
+    if (visible) {
+      setSelected(selectedIds);
+    }
+  }
+
+  const toggle = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id]));
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onClose}>
+              <ThemedText style={styles.headerButtonText}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <ThemedText style={styles.title}>Upload To</ThemedText>
+            <TouchableOpacity onPress={() => onSave(selected)} disabled={selected.length === 0}>
+              <ThemedText style={[styles.headerButtonText, selected.length > 0 && styles.saveText]}>Done</ThemedText>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.list}>
+            {styleOptions.map(style => (
+              <TouchableOpacity key={style.id} style={styles.row} onPress={() => toggle(style.id)}>
+                {style.thumbnailUrl ? (
+                  <Image source={{ uri: style.thumbnailUrl }} style={styles.thumbnail} />
+                ) : (
+                  <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+                    <Ionicons name="shirt-outline" size={20} color={theme.colors.textSecondary} />
+                  </View>
+                )}
+                <ThemedText style={styles.name}>{style.name}</ThemedText>
+                <Ionicons
+                  name={selected.includes(style.id) ? 'checkmark-circle' : 'ellipse-outline'}
+                  size={24}
+                  color={selected.includes(style.id) ? theme.colors.primary : theme.colors.border}
+                />
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  sheet: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.lg,
+    borderTopRightRadius: theme.borderRadius.lg,
+    paddingBottom: theme.spacing.xl,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    paddingHorizontal: theme.spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  headerButtonText: {
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+  },
+  saveText: {
+    color: theme.colors.primary,
+    fontWeight: '600',
+  },
+  list: {
+    paddingHorizontal: theme.spacing.lg,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  thumbnail: {
+    width: 40,
+    height: 40,
+    borderRadius: theme.borderRadius.sm,
+    marginRight: theme.spacing.md,
+  },
+  thumbnailPlaceholder: {
+    backgroundColor: theme.colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  name: {
+    flex: 1,
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+});
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+import { getActiveProfileId, getProfiles, loadProfiles, subscribeToProfiles } from '@/lib/session';
+
+export function useProfiles() {
+  const [state, setState] = useState({ profiles: getProfiles(), activeProfileId: getActiveProfileId() });
+
+  useEffect(() => {
+    const unsubscribe = subscribeToProfiles((profiles, activeProfileId) => {
+      setState({ profiles, activeProfileId });
+    });
+    loadProfiles().then(() => setState({ profiles: getProfiles(), activeProfileId: getActiveProfileId() }));
+    return unsubscribe;
+  }, []);
+
+  return state;
+}
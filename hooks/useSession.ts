@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+import { getSession, Session, subscribeToSession } from '@/lib/session';
+
+export function useSession() {
+  const [session, setSession] = useState<Session | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSession(setSession);
+    getSession().then(setSession);
+    return unsubscribe;
+  }, []);
+
+  return session;
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+import { AppSettings, getSettings, loadSettings, subscribeToSettings, updateSettings } from '@/lib/settings';
+
+export function useSettings(): [AppSettings, (changes: Partial<AppSettings>) => Promise<void>] {
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSettings(setSettings);
+    loadSettings().then(setSettings);
+    return unsubscribe;
+  }, []);
+
+  return [settings, updateSettings];
+}
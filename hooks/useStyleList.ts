@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { apiForProfile, StyleWithUploads } from '@/lib/api';
+import { cacheStyles, getCachedStyles } from '@/lib/styleCache';
+import { useSession } from './useSession';
+
+// Styles of the active server profile. The cached list shows first and is
+// replaced once the server answers; switching profiles starts over.
+export function useStyleList() {
+  const session = useSession();
+  const ready = session !== null;
+  const profileId = session?.profileId ?? null;
+  const [styles, setStyles] = useState<StyleWithUploads[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Why the last refresh failed, shown when there's nothing cached
+  const [error, setError] = useState<Error | null>(null);
+  // Answers for a profile that is no longer active are dropped, whether they
+  // come from the effect or a pull to refresh started before the switch.
+  const activeProfileId = useRef(profileId);
+  activeProfileId.current = profileId;
+
+  const refresh = useCallback(async (stillWanted: () => boolean = () => true) => {
+    if (!profileId) {
+      setStyles([]);
+      setLoading(false);
+      return;
+    }
+    const isCurrent = () => activeProfileId.current === profileId && stillWanted();
+    try {
+      const fresh = await apiForProfile(profileId).listStyles();
+      await cacheStyles(profileId, fresh);
+      if (!isCurrent()) return;
+      setStyles(fresh);
+      setError(null);
+    } catch (error) {
+      console.error('Error loading styles:', error);
+      if (isCurrent()) setError(error as Error);
+    } finally {
+      if (isCurrent()) setLoading(false);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (!ready) return;
+    let current = true;
+    setLoading(true);
+    setStyles([]);
+    setError(null);
+    if (profileId) {
+      getCachedStyles(profileId).then(cached => {
+        if (current && cached.length > 0) {
+          setStyles(cached);
+          setLoading(false);
+        }
+      });
+    }
+    refresh(() => current);
+    return () => {
+      current = false;
+    };
+  }, [ready, profileId, refresh]);
+
+  return { styles, loading, error, refresh };
+}
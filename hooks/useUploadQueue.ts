@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+
+import {
+  getUploadJobs,
+  getUploadProgress,
+  loadUploadQueue,
+  subscribeToUploadProgress,
+  subscribeToUploadQueue,
+  UploadJob,
+} from '@/lib/uploadQueue';
+import { SchedulerProgress } from '@/lib/uploadScheduler';
+
+export function useUploadQueue() {
+  const [jobs, setJobs] = useState<UploadJob[]>(getUploadJobs);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToUploadQueue(setJobs);
+    loadUploadQueue().then(() => setJobs(getUploadJobs()));
+    return unsubscribe;
+  }, []);
+
+  return jobs;
+}
+
+export function useUploadProgress() {
+  const [progress, setProgress] = useState<SchedulerProgress>(getUploadProgress);
+
+  useEffect(() => subscribeToUploadProgress(setProgress), []);
+
+  return progress;
+}
@@ -0,0 +1,173 @@
+import * as SecureStore from 'expo-secure-store';
+import { createApiClient } from '../api';
+import { getSession, saveSession } from '../session';
+import {
+  ApiError,
+  InvalidResponseError,
+  NetworkError,
+  ResponseFormatError,
+  SessionError,
+  SessionExpiredError,
+  TimeoutError,
+} from '../apiErrors';
+
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => {}),
+  deleteItemAsync: jest.fn(async () => {}),
+}));
+
+const credentials = async () => ({ baseUrl: 'https://matter.test', accessToken: 'token' });
+
+const reply = (status: number, body = '') => ({
+  status,
+  ok: status >= 200 && status < 300,
+  text: async () => body,
+} as unknown as Response);
+
+describe('api client', () => {
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  it('sends the token and parses the JSON response', async () => {
+    fetchMock.mockResolvedValue(reply(200, JSON.stringify({ id: 7, name: 'Dress' })));
+
+    const style = await createApiClient(credentials).getStyle('7');
+
+    expect(style).toEqual({ id: '7', name: 'Dress' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://matter.test/api/styles/7');
+    expect(init.headers).toMatchObject({ 'Authorization': 'Bearer token', 'Accept': 'application/json' });
+  });
+
+  it('turns error statuses into ApiErrors with the server message', async () => {
+    fetchMock.mockResolvedValue(reply(422, JSON.stringify({ message: 'Style is archived' })));
+
+    const error = await createApiClient(credentials).listStyles().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 422, message: 'Style is archived', retryable: false });
+  });
+
+  it('marks server errors as retryable', async () => {
+    fetchMock.mockResolvedValue(reply(503, '<html>Bad gateway</html>'));
+
+    const error = await createApiClient(credentials).listStyles().catch(caught => caught);
+
+    expect(error).toMatchObject({ status: 503, retryable: true });
+  });
+
+  it('reports an unreachable server as a network error', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+
+    await expect(createApiClient(credentials).listStyles()).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it('gives up on a request that takes too long', async () => {
+    jest.useFakeTimers();
+    fetchMock.mockImplementation((_url, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('Aborted')));
+    }));
+
+    const result = createApiClient(credentials, { timeout: 1000 }).listStyles();
+    const assertion = expect(result).rejects.toBeInstanceOf(TimeoutError);
+    await jest.advanceTimersByTimeAsync(1000);
+    await assertion;
+    jest.useRealTimers();
+  });
+
+  it('rejects a response that is not JSON', async () => {
+    fetchMock.mockResolvedValue(reply(200, '<html>Login</html>'));
+
+    await expect(createApiClient(credentials).listStyles()).rejects.toBeInstanceOf(ResponseFormatError);
+  });
+
+  it('rejects JSON that is not a style list', async () => {
+    fetchMock.mockResolvedValue(reply(200, JSON.stringify([{ id: 7, uploads: 'none' }])));
+
+    const error = await createApiClient(credentials).listStyles().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error).toMatchObject({ status: 200, message: 'Server sent an invalid style list', retryable: false });
+    expect(error.issues).toEqual([expect.stringMatching(/^0\.name: /), expect.stringMatching(/^0\.uploads: /)]);
+  });
+
+  it('treats deleting a file that is already gone as done', async () => {
+    fetchMock.mockResolvedValue(reply(404));
+
+    await expect(createApiClient(credentials).deleteFile('7', '42')).resolves.toBeUndefined();
+    expect(fetchMock.mock.calls[0][1].method).toBe('DELETE');
+  });
+
+  it('refuses to send anything without a server', async () => {
+    const client = createApiClient(async () => ({ baseUrl: null, accessToken: null }));
+
+    await expect(client.listStyles()).rejects.toBeInstanceOf(SessionError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  describe('when the token is turned down', () => {
+    const jwt = (exp: number) => [
+      'eyJhbGciOiJIUzI1NiJ9',
+      Buffer.from(JSON.stringify({ exp })).toString('base64url'),
+      'signature',
+    ].join('.');
+
+    let profileId: string;
+
+    beforeEach(async () => {
+      await saveSession({ styleId: '7', accessToken: 'token', baseUrl: 'https://matter.test' });
+      profileId = (await getSession()).profileId!;
+    });
+
+    it('renews it and tries once more', async () => {
+      fetchMock
+        .mockResolvedValueOnce(reply(401))
+        .mockResolvedValueOnce(reply(200, JSON.stringify({ token: 'fresh' })))
+        .mockResolvedValueOnce(reply(200, '[]'));
+
+      await expect(createApiClient().listStyles()).resolves.toEqual([]);
+
+      expect(fetchMock.mock.calls[1][0]).toBe('https://matter.test/api/mobile-upload/refresh');
+      expect(fetchMock.mock.calls[2][1].headers.Authorization).toBe('Bearer fresh');
+      expect(SecureStore.setItemAsync).toHaveBeenCalledWith(`accessToken.${profileId}`, 'fresh');
+    });
+
+    it('marks the session expired when it cannot be renewed', async () => {
+      fetchMock
+        .mockResolvedValueOnce(reply(403))
+        .mockResolvedValueOnce(reply(404));
+
+      await expect(createApiClient().listStyles()).rejects.toBeInstanceOf(SessionExpiredError);
+      expect((await getSession(profileId)).expired).toBe(true);
+    });
+
+    it('renews a token that has run out before using it', async () => {
+      fetchMock
+        .mockResolvedValueOnce(reply(200, JSON.stringify({ token: 'fresh' })))
+        .mockResolvedValueOnce(reply(200, '[]'));
+      const client = createApiClient(async () => ({
+        baseUrl: 'https://matter.test',
+        accessToken: jwt(Date.now() / 1000 - 60),
+      }));
+
+      await client.listStyles();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[0][0]).toBe('https://matter.test/api/mobile-upload/refresh');
+      expect(fetchMock.mock.calls[1][1].headers.Authorization).toBe('Bearer fresh');
+    });
+
+    it('sends nothing once the session has expired', async () => {
+      const client = createApiClient(async () => ({ baseUrl: 'https://matter.test', accessToken: 'token', expired: true }));
+
+      await expect(client.listStyles()).rejects.toBeInstanceOf(SessionExpiredError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { InvalidResponseError } from '../apiErrors';
+import { fileCategoryListSchema, parseResponse, parseSavedResponse, styleListSchema, styleSchema, uploadReceiptSchema } from '../apiSchemas';
+import { parseUploadReceipt } from '../uploadTransport';
+
+const upload = { id: 9001, filename: 'front.jpg', createdAt: '2025-03-10T09:12:00.000Z' };
+
+const issuesOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    return (error as InvalidResponseError).issues;
+  }
+  throw new Error('Expected an InvalidResponseError');
+};
+
+describe('style responses', () => {
+  it('accepts a style and turns its ids into strings', () => {
+    expect(parseResponse(styleSchema, { id: 7, name: 'Dress', thumbnailUrl: null, uploads: [upload] })).toEqual({
+      id: '7',
+      name: 'Dress',
+      thumbnailUrl: undefined,
+      uploads: [{ ...upload, id: '9001' }],
+    });
+  });
+
+  it('says which field of which upload is wrong', () => {
+    const issues = issuesOf(() => parseResponse(styleSchema, {
+      id: '7',
+      name: 'Dress',
+      uploads: [upload, { ...upload, filename: 42 }],
+    }));
+
+    expect(issues).toEqual([expect.stringMatching(/^uploads\.1\.filename: /)]);
+  });
+
+  it('turns down a style without a name', () => {
+    expect(() => parseResponse(styleSchema, { id: '7' })).toThrow('Server sent an invalid style');
+  });
+
+  it('turns down an error body in place of a style', () => {
+    expect(() => parseResponse(styleSchema, { message: 'Internal error' })).toThrow(InvalidResponseError);
+  });
+
+  it('gives styles without uploads an empty list', () => {
+    expect(parseResponse(styleListSchema, [{ id: 1, name: 'Dress' }, { id: 2, name: 'Skirt', uploads: null }])).toEqual([
+      { id: '1', name: 'Dress', thumbnailUrl: undefined, uploads: [] },
+      { id: '2', name: 'Skirt', thumbnailUrl: undefined, uploads: [] },
+    ]);
+  });
+
+  it('turns down a list that is not a list', () => {
+    const issues = issuesOf(() => parseResponse(styleListSchema, { data: [] }));
+
+    expect(issues).toHaveLength(1);
+  });
+
+  it('turns down an unknown variant', () => {
+    expect(() => parseResponse(styleSchema, {
+      id: '7',
+      name: 'Dress',
+      uploads: [{ ...upload, variant: 'cropped' }],
+    })).toThrow(InvalidResponseError);
+  });
+});
+
+describe('file category responses', () => {
+  it('accepts a list of categories', () => {
+    expect(parseResponse(fileCategoryListSchema, [{ id: 'front', name: 'Front' }])).toEqual([{ id: 'front', name: 'Front' }]);
+  });
+
+  it('turns down an empty body or anything but a list', () => {
+    expect(() => parseResponse(fileCategoryListSchema, undefined)).toThrow('Server sent an invalid file category list');
+    expect(() => parseResponse(fileCategoryListSchema, { categories: [] })).toThrow(InvalidResponseError);
+  });
+});
+
+describe('saved responses', () => {
+  it('reads back a saved list', () => {
+    expect(parseSavedResponse(fileCategoryListSchema, '[{"id":"front","name":"Front"}]')).toEqual([{ id: 'front', name: 'Front' }]);
+  });
+
+  it('gives nothing back for a list that was never saved or no longer holds up', () => {
+    expect(parseSavedResponse(styleListSchema, null)).toBeNull();
+    expect(parseSavedResponse(styleListSchema, '[{"id":1}]')).toBeNull();
+  });
+});
+
+describe('upload responses', () => {
+  it('reads the file on its own or wrapped', () => {
+    expect(parseResponse(uploadReceiptSchema, { id: 5, url: 'https://x/5.jpg' })).toEqual({ fileId: '5', url: 'https://x/5.jpg' });
+    expect(parseResponse(uploadReceiptSchema, { file: { id: '5' } })).toEqual({ fileId: '5', url: undefined });
+  });
+
+  it('goes without a receipt when the server sends nothing useful', () => {
+    expect(parseUploadReceipt('')).toBeUndefined();
+    expect(parseUploadReceipt('<html>')).toBeUndefined();
+    expect(parseUploadReceipt('{"ok":true}')).toBeUndefined();
+  });
+
+  it('reports a receipt that does not parse but lets the upload through', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(parseUploadReceipt('{"file":{"id":{"nested":1}}}')).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('invalid upload response'), [expect.stringMatching(/^id: /)]);
+
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,169 @@
+import { getChunkedUploadSupport, uploadChunked, ChunkSource } from '../chunkedUpload';
+
+const ENDPOINT = 'https://matter.test/api/styles/style-1/uploads';
+
+// A stand-in for the Matter server's side of the resumable upload protocol,
+// with hooks for dropping the connection mid-upload.
+function createStandInServer({ chunkSize = 4 } = {}) {
+  const sessions = new Map<string, { size: number; received: string }>();
+  let nextId = 1;
+  const dropAt = new Set<number>();
+  const patchOffsets: number[] = [];
+
+  const reply = (status: number, headers: Record<string, string> = {}, body = '') => ({
+    status,
+    ok: status >= 200 && status < 300,
+    headers: { get: (name: string) => headers[name] ?? null },
+    text: async () => body,
+  } as unknown as Response);
+
+  const fetch = jest.fn(async (url: string, init: RequestInit = {}) => {
+    const method = init.method ?? 'GET';
+    const headers = (init.headers ?? {}) as Record<string, string>;
+
+    if (url === ENDPOINT && method === 'OPTIONS') {
+      return reply(204, { 'Upload-Resumable': '1', 'Upload-Chunk-Size': String(chunkSize) });
+    }
+    if (url === ENDPOINT && method === 'POST') {
+      const { size } = JSON.parse(init.body as string);
+      const id = String(nextId++);
+      sessions.set(id, { size, received: '' });
+      return reply(201, { 'Location': `/api/styles/style-1/uploads/${id}`, 'Upload-Offset': '0' });
+    }
+
+    const session = sessions.get(url.split('/').pop()!);
+    if (!session) {
+      return reply(404);
+    }
+    if (method === 'HEAD') {
+      return reply(200, { 'Upload-Offset': String(session.received.length) });
+    }
+    if (method === 'PATCH') {
+      const offset = Number(headers['Upload-Offset']);
+      if (dropAt.delete(offset)) {
+        throw new TypeError('Network request failed');
+      }
+      patchOffsets.push(offset);
+      if (offset !== session.received.length) {
+        return reply(409);
+      }
+      session.received += atob(init.body as string);
+      const offsetHeader = { 'Upload-Offset': String(session.received.length) };
+      if (session.received.length === session.size) {
+        return reply(200, offsetHeader, JSON.stringify({ id: 42, url: 'https://matter.test/files/42' }));
+      }
+      return reply(204, offsetHeader);
+    }
+    return reply(405);
+  });
+
+  return {
+    fetch,
+    sessions,
+    patchOffsets,
+    // Lose the connection the first time a chunk at this offset arrives
+    dropConnectionAt: (offset: number) => {
+      dropAt.add(offset);
+    },
+    // Pretend the server lost part of the last chunk it acknowledged
+    truncate: (id: string, length: number) => {
+      const session = sessions.get(id)!;
+      session.received = session.received.slice(0, length);
+    },
+  };
+}
+
+const stringSource = (content: string): ChunkSource => ({
+  size: content.length,
+  readChunk: async (offset, length) => btoa(content.slice(offset, offset + length)),
+});
+
+describe('chunked uploads', () => {
+  let server: ReturnType<typeof createStandInServer>;
+
+  beforeEach(() => {
+    server = createStandInServer();
+    global.fetch = server.fetch as unknown as typeof fetch;
+  });
+
+  it('reads the chunk size the server advertises', async () => {
+    expect(await getChunkedUploadSupport(ENDPOINT, 'token')).toBe(4);
+  });
+
+  it('uploads a file in chunks', async () => {
+    const progress: number[] = [];
+    const receipt = await uploadChunked({
+      endpoint: ENDPOINT,
+      accessToken: 'token',
+      filename: 'photo.jpg',
+      type: 'image/jpeg',
+      source: stringSource('0123456789'),
+      chunkSize: 4,
+      onProgress: loaded => progress.push(loaded),
+    });
+
+    expect(server.sessions.get('1')!.received).toBe('0123456789');
+    expect(server.patchOffsets).toEqual([0, 4, 8]);
+    expect(progress).toEqual([0, 4, 8, 10]);
+    expect(receipt).toEqual({ fileId: '42', url: 'https://matter.test/files/42' });
+  });
+
+  it('resumes an interrupted upload from the last acknowledged chunk', async () => {
+    let sessionUrl: string | undefined;
+    const options = {
+      endpoint: ENDPOINT,
+      accessToken: 'token',
+      filename: 'photo.jpg',
+      type: 'image/jpeg',
+      source: stringSource('abcdefghijkl'),
+      chunkSize: 4,
+      onSession: (url: string) => {
+        sessionUrl = url;
+      },
+    };
+
+    server.dropConnectionAt(8);
+    await expect(uploadChunked(options)).rejects.toThrow('Network request failed');
+    expect(sessionUrl).toBe('https://matter.test/api/styles/style-1/uploads/1');
+
+    await uploadChunked({ ...options, sessionUrl });
+
+    expect(server.sessions.size).toBe(1);
+    expect(server.patchOffsets).toEqual([0, 4, 8]);
+    expect(server.sessions.get('1')!.received).toBe('abcdefghijkl');
+  });
+
+  it('carries on from the server offset after falling out of step', async () => {
+    let truncated = false;
+    await uploadChunked({
+      endpoint: ENDPOINT,
+      accessToken: 'token',
+      filename: 'photo.jpg',
+      type: 'image/jpeg',
+      source: stringSource('abcdefgh'),
+      chunkSize: 4,
+      onProgress: loaded => {
+        if (loaded === 4 && !truncated) {
+          truncated = true;
+          server.truncate('1', 2);
+        }
+      },
+    });
+
+    expect(server.patchOffsets).toEqual([0, 4, 2, 6]);
+    expect(server.sessions.get('1')!.received).toBe('abcdefgh');
+  });
+
+  it('starts a new session when the old one has expired', async () => {
+    await uploadChunked({
+      endpoint: ENDPOINT,
+      accessToken: 'token',
+      filename: 'photo.jpg',
+      type: 'image/jpeg',
+      source: stringSource('abcdef'),
+      chunkSize: 4,
+      sessionUrl: 'https://matter.test/api/styles/style-1/uploads/99',
+    });
+    expect(server.sessions.get('1')!.received).toBe('abcdef');
+  });
+});
@@ -0,0 +1,50 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CredentialStore, migrateFromAsyncStorage } from '../credentialStore';
+
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const memoryStore = (initial: Record<string, string> = {}): CredentialStore & { values: Record<string, string> } => {
+  const values = { ...initial };
+  return {
+    values,
+    get: async name => values[name] ?? null,
+    set: async (name, value) => {
+      values[name] = value;
+    },
+    remove: async name => {
+      delete values[name];
+    },
+  };
+};
+
+describe('moving credentials out of AsyncStorage', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('moves a plain token into the credential store', async () => {
+    await AsyncStorage.setItem('accessToken', 'old-token');
+    const store = memoryStore();
+
+    await migrateFromAsyncStorage(['accessToken'], store);
+
+    expect(store.values.accessToken).toBe('old-token');
+    expect(await AsyncStorage.getItem('accessToken')).toBeNull();
+  });
+
+  it('keeps a token that is already stored securely', async () => {
+    await AsyncStorage.setItem('accessToken', 'old-token');
+    const store = memoryStore({ accessToken: 'new-token' });
+
+    await migrateFromAsyncStorage(['accessToken'], store);
+
+    expect(store.values.accessToken).toBe('new-token');
+    expect(await AsyncStorage.getItem('accessToken')).toBeNull();
+  });
+
+  it('does nothing when there is nothing to move', async () => {
+    const store = memoryStore();
+
+    await migrateFromAsyncStorage(['accessToken'], store);
+
+    expect(store.values).toEqual({});
+  });
+});
@@ -0,0 +1,124 @@
+import { createApiClient } from '../api';
+import { ApiError, NetworkError, SessionExpiredError } from '../apiErrors';
+import { createMockBackend, installMockBackend, MOCK_ACCESS_TOKEN, MOCK_BASE_URL, MockBackend } from '../mockBackend';
+import { FIXTURE_STYLES } from '../mockBackendFixtures';
+
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => {}),
+  deleteItemAsync: jest.fn(async () => {}),
+}));
+
+const file = { uri: 'file:///photos/IMG_0042.jpg', type: 'image/jpeg', name: 'IMG_0042.jpg' };
+
+describe('mock backend', () => {
+  const originalFormData = global.FormData;
+  let backend: MockBackend;
+  let uninstall: () => void;
+  let accessToken: string;
+  const client = createApiClient(async () => ({ baseUrl: MOCK_BASE_URL, accessToken }));
+
+  beforeAll(() => {
+    // Uploads read files back out of the form the way React Native builds it.
+    global.FormData = require('react-native/Libraries/Network/FormData');
+  });
+
+  afterAll(() => {
+    global.FormData = originalFormData;
+  });
+
+  beforeEach(() => {
+    accessToken = MOCK_ACCESS_TOKEN;
+    backend = createMockBackend({ random: () => 0.5 });
+    uninstall = installMockBackend(backend);
+  });
+
+  afterEach(() => uninstall());
+
+  it('serves the fixture styles', async () => {
+    const styles = await client.listStyles();
+
+    expect(styles.map(style => style.name)).toEqual(FIXTURE_STYLES.map(style => style.name));
+    expect(await client.getStyle('1043')).toMatchObject({ id: '1043', name: 'SS25 Pleated Midi Skirt' });
+  });
+
+  it('gets by with React Native\'s URL, which can\'t tell the path', async () => {
+    const originalURL = global.URL;
+    global.URL = require('react-native/Libraries/Blob/URL').URL;
+    try {
+      await expect(client.getStyle('1043')).resolves.toMatchObject({ id: '1043' });
+      await expect(client.uploadFile({ styleId: '1043', file })).resolves.toMatchObject({ fileId: expect.any(String) });
+    } finally {
+      global.URL = originalURL;
+    }
+  });
+
+  it('answers unknown styles with a 404', async () => {
+    await expect(client.getStyle('nope')).rejects.toMatchObject({ status: 404, message: 'Style not found' });
+  });
+
+  it('keeps uploaded files until they are deleted', async () => {
+    const receipt = await client.uploadFile({ styleId: '1044', file, fields: { captureId: 'capture-1' } });
+
+    expect(receipt?.fileId).toBeDefined();
+    expect((await client.getStyle('1044')).uploads).toEqual([
+      expect.objectContaining({ id: receipt!.fileId, filename: 'IMG_0042.jpg', captureId: 'capture-1' }),
+    ]);
+
+    await client.deleteFile('1044', receipt!.fileId);
+    expect((await client.getStyle('1044')).uploads).toEqual([]);
+  });
+
+  it('fails requests on demand', async () => {
+    backend.failNext(503);
+    backend.failNext('network', { path: '/api/styles/1042/files' });
+
+    await expect(client.listStyles()).rejects.toMatchObject({ status: 503, retryable: true });
+    await expect(client.uploadFile({ styleId: '1042', file })).rejects.toBeInstanceOf(NetworkError);
+    await expect(client.listStyles()).resolves.toHaveLength(FIXTURE_STYLES.length);
+  });
+
+  it('fails a share of requests at random', async () => {
+    backend.setFailureRate(0.6);
+
+    await expect(client.listStyles()).rejects.toBeInstanceOf(ApiError);
+    backend.setFailureRate(0.4);
+    await expect(client.listStyles()).resolves.toHaveLength(FIXTURE_STYLES.length);
+  });
+
+  it('takes as long as it is told to', async () => {
+    jest.useFakeTimers();
+    backend.setLatency(2000);
+    const settled = jest.fn();
+
+    client.listStyles().then(settled);
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(settled).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(settled).toHaveBeenCalled();
+    jest.useRealTimers();
+  });
+
+  it('renews an expired token, or refuses once refresh is off', async () => {
+    backend.expireToken(MOCK_ACCESS_TOKEN);
+    await expect(client.listStyles()).resolves.toHaveLength(FIXTURE_STYLES.length);
+    expect(backend.requests.map(request => request.path)).toEqual(['/api/styles', '/api/mobile-upload/refresh', '/api/styles']);
+
+    backend.setRefreshEnabled(false);
+    await expect(client.listStyles()).rejects.toBeInstanceOf(SessionExpiredError);
+  });
+
+  it('leaves other servers alone', async () => {
+    uninstall();
+    const realFetch = jest.fn(async () => new Response('{}'));
+    global.fetch = realFetch;
+    uninstall = installMockBackend(backend);
+
+    await fetch('https://example.com/ping');
+    await fetch(`${MOCK_BASE_URL}/api/styles`, { headers: { Authorization: `Bearer ${MOCK_ACCESS_TOKEN}` } });
+
+    expect(realFetch).toHaveBeenCalledTimes(1);
+    expect(backend.requests).toHaveLength(1);
+  });
+});
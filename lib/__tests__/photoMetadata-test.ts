@@ -0,0 +1,170 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+import { readExifTags, sanitizePhotoFile, stripSensitiveMetadata } from '../photoMetadata';
+
+jest.mock('expo-image-manipulator', () => ({
+  manipulateAsync: jest.fn(async () => ({ uri: 'file:///cache/manipulated' })),
+  SaveFormat: { JPEG: 'jpeg', PNG: 'png', WEBP: 'webp' },
+}));
+
+type Entry = { tag: number; type: number; count: number; value: number[] };
+
+const ascii = (tag: number, text: string): Entry => ({
+  tag,
+  type: 2,
+  count: text.length + 1,
+  value: [...text].map(char => char.charCodeAt(0)).concat(0),
+});
+
+const short = (tag: number, value: number, little: boolean): Entry => ({
+  tag,
+  type: 3,
+  count: 1,
+  value: little ? [value & 0xff, value >> 8, 0, 0] : [value >> 8, value & 0xff, 0, 0],
+});
+
+const long = (value: number, little: boolean) => {
+  const bytes = [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+  return little ? bytes.reverse() : bytes;
+};
+
+const word = (value: number, little: boolean) => (little ? [value & 0xff, value >> 8] : [value >> 8, value & 0xff]);
+
+// Builds a TIFF block the way cameras lay them out: IFD0 pointing at an Exif
+// and a GPS IFD, each directory followed by its long values.
+function buildTiff(little: boolean, ifds: { ifd0: Entry[]; exif: Entry[]; gps: Entry[] }) {
+  const size = (entries: Entry[]) => 2 + entries.length * 12 + 4 + entries.reduce(
+    (total, entry) => total + (entry.value.length > 4 ? entry.value.length : 0), 0);
+  const pointer = (tag: number, offset: number): Entry => ({ tag, type: 4, count: 1, value: long(offset, little) });
+
+  const ifd0Size = size([...ifds.ifd0, pointer(0, 0), pointer(0, 0)]);
+  const exifOffset = 8 + ifd0Size;
+  const gpsOffset = exifOffset + size(ifds.exif);
+  const ifd0 = [...ifds.ifd0, pointer(0x8769, exifOffset), pointer(0x8825, gpsOffset)];
+
+  const bytes: number[] = [...(little ? [0x49, 0x49] : [0x4d, 0x4d]), ...word(42, little), ...long(8, little)];
+  const writeIfd = (entries: Entry[], offset: number) => {
+    let dataOffset = offset + 2 + entries.length * 12 + 4;
+    const data: number[] = [];
+    bytes.push(...word(entries.length, little));
+    entries.forEach(entry => {
+      bytes.push(...word(entry.tag, little), ...word(entry.type, little), ...long(entry.count, little));
+      if (entry.value.length > 4) {
+        bytes.push(...long(dataOffset, little));
+        data.push(...entry.value);
+        dataOffset += entry.value.length;
+      } else {
+        bytes.push(...entry.value, ...new Array(4 - entry.value.length).fill(0));
+      }
+    });
+    bytes.push(0, 0, 0, 0, ...data);
+  };
+  writeIfd(ifd0, 8);
+  writeIfd(ifds.exif, exifOffset);
+  writeIfd(ifds.gps, gpsOffset);
+  return bytes;
+}
+
+const segment = (marker: number, payload: number[]) => [0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+
+const IMAGE_DATA = [0xff, 0xda, 0x00, 0x04, 0x01, 0x02, 0x11, 0x22, 0x33, 0xff, 0xd9];
+
+function buildJpeg(little: boolean) {
+  const tiff = buildTiff(little, {
+    ifd0: [
+      ascii(0x010f, 'Phone Maker'),
+      ascii(0x0110, 'Phone 12'),
+      short(0x0112, 6, little),
+      ascii(0x0132, '2025:03:14 09:26:53'),
+    ],
+    exif: [
+      ascii(0x9003, '2025:03:14 09:26:53'),
+      ascii(0xa431, 'SERIAL-0042'),
+    ],
+    gps: [
+      ascii(0x0001, 'N'),
+      { tag: 0x0002, type: 5, count: 3, value: new Array(24).fill(7) },
+      ascii(0x0003, 'E'),
+    ],
+  });
+  const xmp = [...'http://ns.adobe.com/xap/1.0/\0<exif:GPSLatitude>22,30N</exif:GPSLatitude>'].map(char => char.charCodeAt(0));
+
+  return new Uint8Array([
+    0xff, 0xd8,
+    ...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00]),
+    ...segment(0xe1, [0x45, 0x78, 0x69, 0x66, 0x00, 0x00, ...tiff]),
+    ...segment(0xe1, xmp),
+    ...IMAGE_DATA,
+  ]);
+}
+
+const containsText = (bytes: Uint8Array, text: string) => (
+  Buffer.from(bytes).toString('latin1').includes(text)
+);
+
+describe('stripping photo metadata', () => {
+  it.each([
+    ['little endian', true],
+    ['big endian', false],
+  ])('removes GPS tags from %s Exif', (_, little) => {
+    const original = buildJpeg(little);
+    expect(Object.keys(readExifTags(original).gps)).toHaveLength(3);
+
+    const sanitized = stripSensitiveMetadata(original);
+    const tags = readExifTags(sanitized);
+
+    expect(tags.gps).toEqual({});
+    expect(tags.ifd0[0x8825]).toBeUndefined();
+    expect(containsText(sanitized, 'GPSLatitude')).toBe(false);
+  });
+
+  it('keeps orientation and capture time', () => {
+    const tags = readExifTags(stripSensitiveMetadata(buildJpeg(true)));
+
+    expect(tags.ifd0[0x0112]).toBe(6);
+    expect(tags.ifd0[0x0132]).toBe('2025:03:14 09:26:53');
+    expect(tags.exif[0x9003]).toBe('2025:03:14 09:26:53');
+  });
+
+  it('drops device details', () => {
+    const sanitized = stripSensitiveMetadata(buildJpeg(false));
+    const tags = readExifTags(sanitized);
+
+    expect(tags.ifd0[0x010f]).toBeUndefined();
+    expect(tags.ifd0[0x0110]).toBeUndefined();
+    expect(tags.exif[0xa431]).toBeUndefined();
+    expect(containsText(sanitized, 'SERIAL-0042')).toBe(false);
+  });
+
+  it('leaves the image data alone', () => {
+    const sanitized = stripSensitiveMetadata(buildJpeg(true));
+
+    expect(Array.from(sanitized.slice(0, 4))).toEqual([0xff, 0xd8, 0xff, 0xe0]);
+    expect(Array.from(sanitized.slice(-IMAGE_DATA.length))).toEqual(IMAGE_DATA);
+  });
+
+  it('drops an Exif block it cannot read', () => {
+    const broken = new Uint8Array([
+      0xff, 0xd8,
+      ...segment(0xe1, [0x45, 0x78, 0x69, 0x66, 0x00, 0x00, 0x58, 0x58, 0x00, 0x2a]),
+      ...IMAGE_DATA,
+    ]);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(Array.from(stripSensitiveMetadata(broken))).toEqual([0xff, 0xd8, ...IMAGE_DATA]);
+  });
+});
+
+describe('sanitising photo files', () => {
+  it('saves formats other than JPEG again, which leaves their metadata behind', async () => {
+    const result = await sanitizePhotoFile('file:///cache/photo.png', { mimeType: 'image/png', extension: 'png' });
+
+    expect(ImageManipulator.manipulateAsync).toHaveBeenCalledWith('file:///cache/photo.png', [], { compress: 1, format: 'png' });
+    expect(result).toEqual({ uri: 'file:///cache/manipulated', type: { mimeType: 'image/png', extension: 'png' } });
+  });
+
+  it('turns HEIC into a JPEG', async () => {
+    const result = await sanitizePhotoFile('file:///cache/photo.heic', { mimeType: 'image/heic', extension: 'heic' });
+
+    expect(result.type).toEqual({ mimeType: 'image/jpeg', extension: 'jpg' });
+  });
+});
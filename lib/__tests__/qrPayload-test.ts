@@ -0,0 +1,135 @@
+import { isStyleLink, parseQrPayload } from '../qrPayload';
+
+const base64Url = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signed = (payload: unknown, sig = 'c2lnbmF0dXJl') => (
+  `https://matter.test/mobile-upload?v=2&payload=${typeof payload === 'string' ? payload : base64Url(payload)}&sig=${sig}`
+);
+
+const reasonFor = (data: string, options = {}) => {
+  const result = parseQrPayload(data, options);
+  return result.ok ? null : result.reason;
+};
+
+describe('QR payloads', () => {
+  it('reads the current token format', () => {
+    expect(parseQrPayload('https://matter.test/mobile-upload/style/1043?token=abc')).toEqual({
+      ok: true,
+      payload: { format: 'token', baseUrl: 'https://matter.test', styleId: '1043', accessToken: 'abc', expiresAt: null },
+    });
+  });
+
+  it('reads the legacy format from the README', () => {
+    expect(parseQrPayload('http://matter.test:8080/mobile-upload/1043/u-77')).toEqual({
+      ok: true,
+      payload: { format: 'legacy', baseUrl: 'http://matter.test:8080', styleId: '1043', accessToken: 'u-77', expiresAt: null },
+    });
+  });
+
+  it('reads a signed payload', () => {
+    const result = parseQrPayload(signed({ styleId: 1043, token: 'abc', exp: 2000 }), { now: 1000 });
+
+    expect(result).toEqual({
+      ok: true,
+      payload: { format: 'signed', baseUrl: 'https://matter.test', styleId: '1043', accessToken: 'abc', expiresAt: 2000000 },
+    });
+  });
+
+  it('decodes escaped style ids', () => {
+    const result = parseQrPayload('https://matter.test/mobile-upload/style/SS25%2F01?token=abc');
+
+    expect(result.ok && result.payload.styleId).toBe('SS25/01');
+  });
+
+  it('turns down text that is not a link', () => {
+    expect(reasonFor('SS25-1043')).toBe('not-a-link');
+  });
+
+  it('turns down links that are not Matter upload codes', () => {
+    expect(reasonFor('https://example.com/menu')).toBe('not-matter');
+    expect(reasonFor('mailto:someone@example.com')).toBe('not-matter');
+  });
+
+  it('turns down links with a token that are not under /mobile-upload', () => {
+    expect(reasonFor('https://example.com/account/reset/1043?token=abc')).toBe('not-matter');
+    expect(reasonFor('https://matter.test/api/styles/1043?token=abc')).toBe('not-matter');
+    expect(reasonFor('https://matter.test/?v=2&payload=x&sig=y')).toBe('not-matter');
+  });
+
+  it('says when the token is missing', () => {
+    expect(reasonFor('https://matter.test/mobile-upload/style/1043')).toBe('missing-token');
+    expect(reasonFor('https://matter.test/mobile-upload/style/1043?token=')).toBe('missing-token');
+    expect(reasonFor('https://matter.test/mobile-upload/1043')).toBe('missing-token');
+  });
+
+  it('says when the style is missing', () => {
+    expect(reasonFor('https://matter.test/mobile-upload/style?token=abc')).toBe('missing-style');
+    expect(reasonFor('https://matter.test/mobile-upload')).toBe('missing-style');
+  });
+
+  it('asks for an update for versions it does not know', () => {
+    expect(reasonFor('https://matter.test/mobile-upload?v=3&payload=x')).toBe('unsupported-version');
+  });
+
+  it('turns down signed payloads that are damaged or incomplete', () => {
+    expect(reasonFor(signed('not-base64-json'))).toBe('bad-payload');
+    expect(reasonFor(signed({ styleId: '1043' }))).toBe('bad-payload');
+    expect(reasonFor('https://matter.test/mobile-upload?v=2&payload=' + base64Url({ styleId: '1', token: 't' }))).toBe('bad-payload');
+  });
+
+  it('turns down signed payloads that have expired', () => {
+    expect(reasonFor(signed({ styleId: '1043', token: 'abc', exp: 1000 }), { now: 1000 * 1000 })).toBe('expired');
+  });
+
+  it('checks the signature when asked to', () => {
+    const verifySignature = jest.fn(() => false);
+
+    expect(reasonFor(signed({ styleId: '1043', token: 'abc' }), { verifySignature })).toBe('bad-signature');
+    expect(verifySignature).toHaveBeenCalledWith(base64Url({ styleId: '1043', token: 'abc' }), 'c2lnbmF0dXJl');
+  });
+
+  it('reads the link an app link carries', () => {
+    const link = encodeURIComponent('https://matter.test/mobile-upload/style/1043?token=abc');
+
+    expect(parseQrPayload(`myapp://upload?link=${link}`)).toMatchObject({
+      ok: true,
+      payload: { baseUrl: 'https://matter.test', styleId: '1043', accessToken: 'abc' },
+    });
+    expect(reasonFor('myapp://upload')).toBe('not-a-link');
+  });
+
+  it('tells style links apart from links to the app\'s own screens', () => {
+    expect(isStyleLink('https://matter.test/mobile-upload/style/1043?token=abc')).toBe(true);
+    expect(isStyleLink('myapp://upload?link=x')).toBe(true);
+    expect(isStyleLink('myapp://settings')).toBe(false);
+    expect(isStyleLink('/upload')).toBe(false);
+  });
+
+  it('works with React Native\'s URL, which implements none of what it reads', () => {
+    const originalURL = global.URL;
+    global.URL = require('react-native/Libraries/Blob/URL').URL;
+    try {
+      expect(parseQrPayload('https://matter.test/mobile-upload/style/1043?token=abc')).toMatchObject({
+        ok: true,
+        payload: { baseUrl: 'https://matter.test', styleId: '1043', accessToken: 'abc' },
+      });
+      expect(parseQrPayload(signed({ styleId: '1043', token: 'abc' }))).toMatchObject({ ok: true });
+      expect(reasonFor('SS25-1043')).toBe('not-a-link');
+      expect(isStyleLink('myapp://settings')).toBe(false);
+    } finally {
+      global.URL = originalURL;
+    }
+  });
+
+  it('reads the server the way URL would', () => {
+    const result = parseQrPayload('HTTPS://user@Matter.Test:443/mobile-upload/style/1043?token=a%2Bb&token=ignored#top');
+
+    expect(result).toMatchObject({ ok: true, payload: { baseUrl: 'https://matter.test', accessToken: 'a+b' } });
+  });
+
+  it('comes with a message to show', () => {
+    const result = parseQrPayload('https://matter.test/mobile-upload/style/1043');
+
+    expect(result).toMatchObject({ ok: false, message: expect.stringContaining('no upload token') });
+  });
+});
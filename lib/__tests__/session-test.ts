@@ -0,0 +1,72 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('expo-secure-store', () => {
+  const values: Record<string, string> = {};
+  return {
+    getItemAsync: jest.fn(async (name: string) => values[name] ?? null),
+    setItemAsync: jest.fn(async (name: string, value: string) => {
+      values[name] = value;
+    }),
+    deleteItemAsync: jest.fn(async (name: string) => {
+      delete values[name];
+    }),
+  };
+});
+
+// Profiles are held in module state, so every test starts from a fresh copy.
+const loadSession = () => {
+  let session!: typeof import('../session');
+  jest.isolateModules(() => {
+    session = require('../session');
+  });
+  return session;
+};
+
+describe('server profiles', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('turns the single session of earlier versions into a profile', async () => {
+    await AsyncStorage.multiSet([
+      ['styleId', '1042'],
+      ['baseUrl', 'https://matter.test'],
+      ['accessToken', 'old-token'],
+    ]);
+    const { getProfiles, getSession, loadProfiles } = loadSession();
+
+    await loadProfiles();
+
+    expect(getProfiles()).toEqual([
+      expect.objectContaining({ name: 'matter.test', baseUrl: 'https://matter.test', styleId: '1042', expired: false }),
+    ]);
+    expect(await getSession()).toEqual(expect.objectContaining({ styleId: '1042', accessToken: 'old-token' }));
+    expect(await AsyncStorage.getItem('baseUrl')).toBeNull();
+    expect(await AsyncStorage.getItem('accessToken')).toBeNull();
+  });
+
+  it('keeps one profile per server and activates the last one scanned', async () => {
+    const { getProfiles, getSession, saveSession } = loadSession();
+
+    await saveSession({ styleId: '1', accessToken: 'a', baseUrl: 'https://one.test' });
+    await saveSession({ styleId: '2', accessToken: 'b', baseUrl: 'https://two.test' });
+    await saveSession({ styleId: '3', accessToken: 'c', baseUrl: 'https://one.test' });
+
+    expect(getProfiles().map(profile => [profile.baseUrl, profile.styleId])).toEqual([
+      ['https://one.test', '3'],
+      ['https://two.test', '2'],
+    ]);
+    expect(await getSession()).toEqual(expect.objectContaining({ baseUrl: 'https://one.test', accessToken: 'c' }));
+  });
+
+  it('hands over to another profile when the active one is forgotten', async () => {
+    const { clearSession, getSession, saveSession } = loadSession();
+    await saveSession({ styleId: '1', accessToken: 'a', baseUrl: 'https://one.test' });
+    await saveSession({ styleId: '2', accessToken: 'b', baseUrl: 'https://two.test' });
+    const { profileId } = await getSession();
+
+    await clearSession();
+
+    expect(await getSession()).toEqual(expect.objectContaining({ baseUrl: 'https://one.test', accessToken: 'a' }));
+    expect(await getSession(profileId)).toEqual(expect.objectContaining({ baseUrl: null, accessToken: null }));
+  });
+});
@@ -0,0 +1,34 @@
+import { getProfiles, saveSession } from '../session';
+import { routeForStyleLink } from '../styleLink';
+
+jest.mock('../session', () => ({
+  getProfiles: jest.fn(() => []),
+  loadProfiles: jest.fn(async () => {}),
+  saveSession: jest.fn(async () => {}),
+}));
+
+const known = { id: 'profile-1', name: 'matter.test', baseUrl: 'https://matter.test', styleId: '1', expired: false };
+
+describe('opening style links', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getProfiles as jest.Mock).mockReturnValue([known]);
+  });
+
+  it('connects straight away to a server that already has a profile', async () => {
+    expect(await routeForStyleLink('https://matter.test/mobile-upload/style/1043?token=abc')).toBe('/upload');
+    expect(saveSession).toHaveBeenCalledWith({ styleId: '1043', accessToken: 'abc', baseUrl: 'https://matter.test' });
+  });
+
+  it('asks before connecting to a server it doesn\'t know', async () => {
+    const link = 'https://elsewhere.test/mobile-upload/style/1043?token=abc';
+
+    expect(await routeForStyleLink(link)).toBe(`/connect?link=${encodeURIComponent(link)}`);
+    expect(saveSession).not.toHaveBeenCalled();
+  });
+
+  it('leaves the session alone for links outside /mobile-upload', async () => {
+    expect(await routeForStyleLink('https://matter.test/account/reset/1043?token=abc')).toBe('/scanner?linkError=not-matter');
+    expect(saveSession).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { UploadJob } from '../uploadQueue';
+
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  deleteAsync: jest.fn(async () => {}),
+}));
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(),
+  fetch: jest.fn(async () => ({ isConnected: true })),
+}));
+jest.mock('../session', () => ({
+  getSession: jest.fn(async () => ({ baseUrl: 'https://matter.test', expired: false })),
+  getMigratedProfileId: jest.fn(() => null),
+  loadProfiles: jest.fn(async () => {}),
+  subscribeToSession: jest.fn(),
+}));
+jest.mock('../api', () => {
+  const client = {
+    getResumableUploadSupport: jest.fn(async () => null),
+    uploadFile: jest.fn(async () => ({ fileId: '42' })),
+  };
+  return { api: client, apiForProfile: () => client };
+});
+
+const parkedJob: UploadJob = {
+  id: 'job-1',
+  sourceUri: 'file:///cache/photo.jpg',
+  fileUri: 'file:///documents/upload-queue/job-1.jpg',
+  fileName: 'photo.jpg',
+  mimeType: 'image/jpeg',
+  styleId: '1042',
+  profileId: 'profile-1',
+  captureId: 'job-1',
+  fields: {},
+  size: 100,
+  priority: 0,
+  status: 'retrying',
+  progress: 0,
+  attempts: 1,
+  waitingForNetwork: true,
+  error: 'Network request failed',
+  createdAt: 1,
+};
+
+// The queue keeps its jobs in module state, so each test loads it afresh as
+// the app would after a restart, along with the mocks it sees.
+const loadQueue = () => {
+  let queue!: typeof import('../uploadQueue');
+  let netInfo!: { addEventListener: jest.Mock; fetch: jest.Mock };
+  let client!: { uploadFile: jest.Mock };
+  let session!: { getMigratedProfileId: jest.Mock };
+  jest.isolateModules(() => {
+    queue = require('../uploadQueue');
+    netInfo = require('@react-native-community/netinfo');
+    client = require('../api').api;
+    session = require('../session');
+  });
+  return { queue, netInfo, client, session };
+};
+
+const settled = (queue: typeof import('../uploadQueue'), id: string) => new Promise<UploadJob>(resolve => {
+  const unsubscribe = queue.subscribeToUploadQueue(jobs => {
+    const job = jobs.find(candidate => candidate.id === id);
+    if (job?.status === 'done' || job?.status === 'failed') {
+      unsubscribe();
+      resolve(job);
+    }
+  });
+});
+
+describe('upload queue', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('sends jobs that were waiting for the network when the app closed', async () => {
+    await AsyncStorage.setItem('uploadQueue', JSON.stringify([parkedJob]));
+    const { queue } = loadQueue();
+
+    await queue.loadUploadQueue();
+    expect(queue.getUploadJobs()[0].waitingForNetwork).toBe(false);
+
+    const done = settled(queue, 'job-1');
+    await queue.processUploadQueue();
+
+    expect(await done).toMatchObject({ status: 'done', receipt: { fileId: '42' } });
+  });
+
+  it('gives jobs from before profiles the profile their session became', async () => {
+    const { profileId, ...legacyJob } = parkedJob;
+    await AsyncStorage.setItem('uploadQueue', JSON.stringify([legacyJob]));
+    const { queue, session } = loadQueue();
+    session.getMigratedProfileId.mockReturnValue('migrated');
+
+    await queue.loadUploadQueue();
+
+    expect(queue.getUploadJobs()[0].profileId).toBe('migrated');
+    expect(JSON.parse((await AsyncStorage.getItem('uploadQueue'))!)[0].profileId).toBe('migrated');
+  });
+
+  it('drops jobs from before profiles when there was no session to migrate', async () => {
+    const { profileId, ...legacyJob } = parkedJob;
+    await AsyncStorage.setItem('uploadQueue', JSON.stringify([legacyJob, parkedJob]));
+    const { queue } = loadQueue();
+
+    await queue.loadUploadQueue();
+
+    expect(queue.getUploadJobs().map(job => job.profileId)).toEqual([profileId]);
+  });
+
+  it('sends parked jobs when the device reports a connection it never lost', async () => {
+    await AsyncStorage.setItem('uploadQueue', JSON.stringify([{ ...parkedJob, status: 'queued', waitingForNetwork: false }]));
+    const { queue, netInfo, client } = loadQueue();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    // The upload fails before NetInfo has noticed the connection dropped
+    client.uploadFile.mockRejectedValueOnce(new TypeError('Network request failed'));
+    netInfo.fetch.mockResolvedValueOnce({ isConnected: false });
+    const parked = new Promise<void>(resolve => {
+      queue.subscribeToUploadQueue(jobs => jobs[0]?.waitingForNetwork && resolve());
+    });
+
+    queue.startUploadQueue();
+    await parked;
+    const done = settled(queue, 'job-1');
+    const [[onNetworkChange]] = netInfo.addEventListener.mock.calls;
+    onNetworkChange({ isConnected: true });
+
+    expect(await done).toMatchObject({ status: 'done', attempts: 1 });
+    jest.restoreAllMocks();
+  });
+});
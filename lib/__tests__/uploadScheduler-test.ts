@@ -0,0 +1,152 @@
+import { createUploadScheduler } from '../uploadScheduler';
+
+// A task that only finishes when the test says so.
+function deferredTask(id: string, { priority = 0, size = 100 } = {}) {
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  let report!: (bytesSent: number) => void;
+  const run = jest.fn((reportProgress: (bytesSent: number) => void) => {
+    report = reportProgress;
+    return new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+  });
+
+  return {
+    task: { id, priority, size, run },
+    run,
+    resolve: () => resolve(),
+    reject: () => reject(new Error('failed')),
+    report: (bytesSent: number) => report(bytesSent),
+  };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('upload scheduler', () => {
+  it('never runs more uploads at once than the concurrency limit', async () => {
+    const scheduler = createUploadScheduler({ concurrency: 2 });
+    const tasks = ['a', 'b', 'c', 'd'].map(id => deferredTask(id));
+    tasks.forEach(({ task }) => scheduler.add(task));
+
+    expect(tasks.map(t => t.run.mock.calls.length)).toEqual([1, 1, 0, 0]);
+    expect(scheduler.getProgress()).toMatchObject({ active: 2, pending: 2 });
+
+    tasks[0].resolve();
+    await flush();
+    expect(tasks.map(t => t.run.mock.calls.length)).toEqual([1, 1, 1, 0]);
+  });
+
+  it('starts higher priority uploads first', async () => {
+    const scheduler = createUploadScheduler({ concurrency: 1 });
+    const started: string[] = [];
+    const tasks = [
+      deferredTask('first'),
+      deferredTask('second'),
+      deferredTask('cover', { priority: 1 }),
+      deferredTask('third'),
+    ];
+    tasks.forEach(({ task, run }) => {
+      run.mockImplementation(() => {
+        started.push(task.id);
+        return Promise.resolve();
+      });
+      scheduler.add(task);
+    });
+
+    await scheduler.onIdle();
+    expect(started).toEqual(['first', 'cover', 'second', 'third']);
+  });
+
+  it('puts a task added back with its sequence in its old place', async () => {
+    const scheduler = createUploadScheduler({ concurrency: 1 });
+    const started: string[] = [];
+    const tasks = ['blocker', 'a', 'b', 'c'].map((id, index) => {
+      const deferred = deferredTask(id);
+      deferred.run.mockImplementation(() => {
+        started.push(id);
+        return id === 'blocker' ? new Promise<void>(() => {}) : Promise.resolve();
+      });
+      return { ...deferred, task: { ...deferred.task, sequence: index } };
+    });
+    tasks.forEach(({ task }) => scheduler.add(task));
+
+    scheduler.remove('a');
+    scheduler.add(tasks[1].task);
+    expect(scheduler.getProgress()).toMatchObject({ pending: 3 });
+
+    scheduler.setConcurrency(4);
+    await flush();
+    expect(started).toEqual(['blocker', 'a', 'b', 'c']);
+  });
+
+  it('ignores a task that is already scheduled', () => {
+    const scheduler = createUploadScheduler({ concurrency: 1 });
+    const { task } = deferredTask('a');
+    expect(scheduler.add(task)).toBe(true);
+    expect(scheduler.add(task)).toBe(false);
+  });
+
+  it('reports overall bytes sent and an ETA', async () => {
+    let time = 0;
+    const scheduler = createUploadScheduler({ concurrency: 2, now: () => time });
+    const a = deferredTask('a', { size: 1000 });
+    const b = deferredTask('b', { size: 3000 });
+    scheduler.add(a.task);
+    scheduler.add(b.task);
+
+    expect(scheduler.getProgress()).toMatchObject({ bytesSent: 0, bytesTotal: 4000, etaSeconds: null });
+
+    time = 2000;
+    a.report(600);
+    b.report(400);
+    expect(scheduler.getProgress()).toMatchObject({
+      bytesSent: 1000,
+      bytesTotal: 4000,
+      bytesPerSecond: 500,
+      etaSeconds: 6,
+    });
+
+    a.resolve();
+    await flush();
+    expect(scheduler.getProgress()).toMatchObject({ bytesSent: 1400, bytesTotal: 4000 });
+  });
+
+  it('drops the bytes of a failed upload from the totals', async () => {
+    const onProgress = jest.fn();
+    const scheduler = createUploadScheduler({ concurrency: 2, onProgress });
+    const a = deferredTask('a', { size: 1000 });
+    const b = deferredTask('b', { size: 500 });
+    scheduler.add(a.task);
+    scheduler.add(b.task);
+
+    a.report(200);
+    a.reject();
+    await flush();
+
+    expect(scheduler.getProgress()).toMatchObject({ bytesSent: 0, bytesTotal: 500, active: 1 });
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ bytesTotal: 500 }));
+  });
+
+  it('removes uploads that have not started', () => {
+    const scheduler = createUploadScheduler({ concurrency: 1 });
+    const a = deferredTask('a');
+    const b = deferredTask('b');
+    scheduler.add(a.task);
+    scheduler.add(b.task);
+
+    expect(scheduler.remove('a')).toBe(false);
+    expect(scheduler.remove('b')).toBe(true);
+    expect(scheduler.getProgress()).toMatchObject({ pending: 0, bytesTotal: 100 });
+  });
+
+  it('picks up a raised concurrency limit straight away', () => {
+    const scheduler = createUploadScheduler({ concurrency: 1 });
+    const tasks = ['a', 'b', 'c'].map(id => deferredTask(id));
+    tasks.forEach(({ task }) => scheduler.add(task));
+
+    scheduler.setConcurrency(3);
+    expect(tasks.every(t => t.run.mock.calls.length === 1)).toBe(true);
+  });
+});
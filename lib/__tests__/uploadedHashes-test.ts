@@ -0,0 +1,32 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { forgetUploadedHashes, getUploadedHashes, recordUploadedHashes } from '../uploadedHashes';
+
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+describe('uploaded hashes', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('keeps both hashes when two uploads finish at the same time', async () => {
+    await Promise.all([
+      recordUploadedHashes('profile-1', '1042', ['aaa']),
+      recordUploadedHashes('profile-1', '1042', ['bbb']),
+    ]);
+
+    expect(await getUploadedHashes('profile-1', '1042')).toEqual(new Set(['aaa', 'bbb']));
+  });
+
+  it('applies an undo after the upload it follows', async () => {
+    await Promise.all([
+      recordUploadedHashes('profile-1', '1042', ['aaa', 'bbb']),
+      forgetUploadedHashes('profile-1', '1042', ['aaa']),
+    ]);
+
+    expect(await getUploadedHashes('profile-1', '1042')).toEqual(new Set(['bbb']));
+  });
+
+  it('keeps the lists of styles on different servers apart', async () => {
+    await recordUploadedHashes('profile-1', '1042', ['aaa']);
+
+    expect(await getUploadedHashes('profile-2', '1042')).toEqual(new Set());
+  });
+});
@@ -0,0 +1,55 @@
+// Bump when the shape of the sidecar changes so the server can migrate or
+// reject payloads it doesn't understand.
+export const ANNOTATION_SCHEMA_VERSION = 1;
+
+export interface AnnotationSource {
+  paths: any[];
+  texts: any[];
+  icons: any[];
+  rectangles: any[];
+  measurements: any[];
+  canvas?: { width: number; height: number };
+}
+
+export interface AnnotationSidecar {
+  schemaVersion: number;
+  createdAt: string;
+  // Annotation coordinates are in canvas points, with the photo drawn into
+  // the canvas using "contain" fitting.
+  coordinateSpace: {
+    width: number | null;
+    height: number | null;
+    fit: 'contain';
+  };
+  image: {
+    width: number | null;
+    height: number | null;
+  };
+  paths: any[];
+  texts: any[];
+  icons: any[];
+  rectangles: any[];
+  measurements: any[];
+}
+
+export const buildAnnotationSidecar = (
+  annotations: AnnotationSource,
+  image: { width?: number; height?: number } = {},
+): AnnotationSidecar => ({
+  schemaVersion: ANNOTATION_SCHEMA_VERSION,
+  createdAt: new Date().toISOString(),
+  coordinateSpace: {
+    width: annotations.canvas?.width ?? null,
+    height: annotations.canvas?.height ?? null,
+    fit: 'contain',
+  },
+  image: {
+    width: image.width ?? null,
+    height: image.height ?? null,
+  },
+  paths: annotations.paths ?? [],
+  texts: annotations.texts ?? [],
+  icons: annotations.icons ?? [],
+  rectangles: annotations.rectangles ?? [],
+  measurements: annotations.measurements ?? [],
+});
@@ -0,0 +1,256 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+import { getSession, isTokenExpired, markSessionExpired, Session, updateAccessToken } from './session';
+import { ApiError, ResponseFormatError, SessionError, SessionExpiredError } from './apiErrors';
+import { DEFAULT_TIMEOUT, sendRequest } from './http';
+import { MultipartFile, uploadMultipart, UploadReceipt } from './uploadTransport';
+import { ChunkedUploadOptions, getChunkedUploadSupport, uploadChunked } from './chunkedUpload';
+import { fileCategoryListSchema, parseResponse, styleListSchema, styleSchema } from './apiSchemas';
+
+export interface Upload {
+  id: string;
+  filename: string;
+  createdAt: string;
+  url?: string;
+  // Set when the file was sent as part of an original/annotated pair
+  captureId?: string;
+  variant?: 'original' | 'annotated';
+  // MD5 of the file on the device it came from, see uploadedHashes
+  sourceHash?: string;
+}
+
+export interface Style {
+  id: string;
+  name: string;
+  thumbnailUrl?: string;
+  uploads?: Upload[];
+}
+
+export type StyleSummary = Pick<Style, 'id' | 'name' | 'thumbnailUrl'>;
+
+export type StyleWithUploads = Style & { uploads: Upload[] };
+
+export interface RequestOptions<T = unknown> {
+  method?: string;
+  // Sent as JSON
+  body?: unknown;
+  signal?: AbortSignal;
+  timeout?: number;
+  // Checked against the response body, see apiSchemas
+  schema?: ZodType<T, ZodTypeDef, unknown>;
+}
+
+export interface UploadFileOptions {
+  styleId: string;
+  file: MultipartFile;
+  fields?: Record<string, string>;
+  attachments?: Record<string, MultipartFile>;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+type Credentials = Pick<Session, 'baseUrl' | 'accessToken'> & Partial<Pick<Session, 'expired' | 'profileId'>>;
+
+export type ResumableUploadOptions = Omit<ChunkedUploadOptions, 'endpoint' | 'accessToken'> & {
+  styleId: string;
+};
+
+const authHeaders = (accessToken: string | null) => ({
+  'Authorization': `Bearer ${accessToken}`,
+  'Accept': 'application/json',
+});
+
+// A token the server turned down, as opposed to the client having nothing to send.
+const isRejected = (error: unknown) => (
+  error instanceof ApiError && !(error instanceof SessionError) && (error.status === 401 || error.status === 403)
+);
+
+const readBody = async (response: Response) => {
+  const text = await response.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ResponseFormatError(response.status);
+  }
+};
+
+/**
+ * Talks to the Matter backend with whatever credentials the session holds.
+ * All failures surface as the errors in apiErrors, bodies that don't match
+ * apiSchemas included.
+ *
+ * Scanned tokens don't last forever. When one has expired, by its own `exp`
+ * claim or because the server answers 401/403, the client asks for a new one
+ *
+ *   POST /api/mobile-upload/refresh        -> 200, `{ "token": "<new token>" }`
+ *
+ * and repeats the request once. If the server won't renew it the session is
+ * marked expired and everything fails with SessionExpiredError until the
+ * next scan.
+ */
+export const createApiClient = (
+  getCredentials: () => Promise<Credentials> = getSession,
+  { timeout: defaultTimeout = DEFAULT_TIMEOUT } = {},
+) => {
+  // Concurrent requests that all hit an expired token share one refresh.
+  let renewal: Promise<string> | null = null;
+
+  const credentials = async () => {
+    const { baseUrl, accessToken, expired, profileId = null } = await getCredentials();
+    if (!baseUrl) {
+      throw new SessionError();
+    }
+    if (expired) {
+      throw new SessionExpiredError();
+    }
+    return { baseUrl, accessToken, profileId };
+  };
+
+  const expire = async (profileId: string | null): Promise<never> => {
+    await markSessionExpired(profileId);
+    throw new SessionExpiredError();
+  };
+
+  // Network failures propagate as they are, the token may well still be good.
+  const renewToken = (baseUrl: string, accessToken: string | null, profileId: string | null) => {
+    if (!renewal) {
+      renewal = (async () => {
+        const response = await sendRequest(`${baseUrl}/api/mobile-upload/refresh`, {
+          method: 'POST',
+          timeout: defaultTimeout,
+          headers: authHeaders(accessToken),
+        });
+        const body = response.ok ? await readBody(response).catch(() => undefined) : undefined;
+        if (typeof body?.token !== 'string') {
+          return expire(profileId);
+        }
+        await updateAccessToken(body.token, profileId);
+        return body.token as string;
+      })().finally(() => {
+        renewal = null;
+      });
+    }
+    return renewal;
+  };
+
+  const withCredentials = async <T>(run: (baseUrl: string, accessToken: string | null) => Promise<T>) => {
+    const { baseUrl, accessToken: current, profileId } = await credentials();
+    let accessToken = current;
+    if (accessToken && isTokenExpired(accessToken)) {
+      accessToken = await renewToken(baseUrl, accessToken, profileId);
+    }
+
+    try {
+      return await run(baseUrl, accessToken);
+    } catch (error) {
+      if (!isRejected(error)) throw error;
+    }
+
+    const renewed = await renewToken(baseUrl, accessToken, profileId);
+    try {
+      return await run(baseUrl, renewed);
+    } catch (error) {
+      if (isRejected(error)) {
+        return expire(profileId);
+      }
+      throw error;
+    }
+  };
+
+  const request = <T>(path: string, { method = 'GET', body, signal, timeout = defaultTimeout, schema }: RequestOptions<T> = {}) => (
+    withCredentials(async (baseUrl, accessToken) => {
+      const response = await sendRequest(`${baseUrl}${path}`, {
+        method,
+        signal,
+        timeout,
+        headers: {
+          ...authHeaders(accessToken),
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+
+      if (!response.ok) {
+        // Error bodies are only a nicety, don't let a bad one hide the status.
+        const errorBody = await readBody(response).catch(() => undefined);
+        const message = typeof errorBody?.message === 'string'
+          ? errorBody.message
+          : `Request failed with status ${response.status}`;
+        throw new ApiError(message, response.status, errorBody);
+      }
+      const data = await readBody(response);
+      return schema ? parseResponse(schema, data, response.status) : data as T;
+    })
+  );
+
+  const stylePath = (styleId: string) => `/api/styles/${encodeURIComponent(styleId)}`;
+
+  return {
+    request,
+
+    getStyle: (styleId: string) => request(stylePath(styleId), { schema: styleSchema }),
+
+    listStyles: () => request('/api/styles', { schema: styleListSchema }),
+
+    getFileCategories: () => request('/api/file-categories', { schema: fileCategoryListSchema }),
+
+    // Already gone is as good as deleted.
+    deleteFile: async (styleId: string, fileId: string) => {
+      try {
+        await request<void>(`${stylePath(styleId)}/files/${encodeURIComponent(fileId)}`, { method: 'DELETE' });
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.status !== 404) {
+          throw error;
+        }
+      }
+    },
+
+    // Plain multipart upload, which reports progress as it goes.
+    uploadFile: ({ styleId, ...options }: UploadFileOptions): Promise<UploadReceipt | undefined> => (
+      withCredentials((baseUrl, accessToken) => (
+        uploadMultipart({ url: `${baseUrl}${stylePath(styleId)}/files`, accessToken, ...options })
+      ))
+    ),
+
+    // The chunk size the server wants for resumable uploads to a style, or
+    // null if it only takes plain ones.
+    getResumableUploadSupport: (styleId: string) => (
+      withCredentials((baseUrl, accessToken) => (
+        getChunkedUploadSupport(`${baseUrl}${stylePath(styleId)}/uploads`, accessToken)
+      ))
+    ),
+
+    // A retry after renewing the token carries on from the same session.
+    uploadFileResumable: ({ styleId, sessionUrl, onSession, ...options }: ResumableUploadOptions) => {
+      let latestSession = sessionUrl;
+      return withCredentials((baseUrl, accessToken) => uploadChunked({
+        endpoint: `${baseUrl}${stylePath(styleId)}/uploads`,
+        accessToken,
+        ...options,
+        sessionUrl: latestSession,
+        onSession: url => {
+          latestSession = url;
+          onSession?.(url);
+        },
+      }));
+    },
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+// Follows whichever server profile is active.
+export const api = createApiClient();
+
+const profileClients = new Map<string, ApiClient>();
+
+// Stays with one server profile, for work that outlives switching, such as
+// queued uploads.
+export const apiForProfile = (profileId: string) => {
+  let client = profileClients.get(profileId);
+  if (!client) {
+    client = createApiClient(() => getSession(profileId));
+    profileClients.set(profileId, client);
+  }
+  return client;
+};
@@ -0,0 +1,81 @@
+// Every request to the server fails with one of these, so callers only have
+// to tell apart what they can act on.
+
+export class ApiError extends Error {
+  status: number;
+  // Network failures and 5xx responses are worth trying again later,
+  // anything else means the server rejected the request.
+  retryable: boolean;
+  // Parsed error body, when the server sent one
+  body?: unknown;
+
+  constructor(message: string, status: number, body?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.retryable = status === 0 || status >= 500;
+    this.body = body;
+  }
+}
+
+// The server couldn't be reached at all.
+export class NetworkError extends ApiError {
+  constructor(message = 'Network request failed') {
+    super(message, 0);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor() {
+    super('Request timed out');
+    this.name = 'TimeoutError';
+  }
+}
+
+// The server answered with something that isn't the JSON we asked for.
+export class ResponseFormatError extends ApiError {
+  constructor(status: number) {
+    super('Server sent an unreadable response', status);
+    this.name = 'ResponseFormatError';
+  }
+}
+
+// The JSON is readable but not what the app expects, e.g. a style without a
+// name. `issues` says what was wrong and where, for bug reports.
+export class InvalidResponseError extends ResponseFormatError {
+  issues: string[];
+
+  constructor(what: string, status: number, issues: string[]) {
+    super(status);
+    this.message = `Server sent an invalid ${what}`;
+    this.name = 'InvalidResponseError';
+    this.issues = issues;
+  }
+}
+
+// There is no server or token to talk to, e.g. before the first scan.
+export class SessionError extends ApiError {
+  constructor(message = 'Not connected to a server, scan a style QR code first') {
+    super(message, 401);
+    this.name = 'SessionError';
+  }
+}
+
+// The server no longer accepts the token and it couldn't be renewed, so the
+// style QR code has to be scanned again.
+export class SessionExpiredError extends SessionError {
+  constructor() {
+    super('Your upload link has expired, scan the style QR code again');
+    this.name = 'SessionExpiredError';
+  }
+}
+
+// Thrown when a request is stopped on purpose, e.g. an upload is paused or
+// cancelled.
+export class RequestAbortedError extends Error {
+  constructor() {
+    super('Request aborted');
+    this.name = 'RequestAbortedError';
+  }
+}
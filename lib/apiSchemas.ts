@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { InvalidResponseError } from './apiErrors';
+import type { Style, StyleWithUploads, Upload } from './api';
+import type { FileCategory } from './fileCategories';
+import type { UploadReceipt } from './uploadTransport';
+
+// What the app accepts from the server. Everything coming in is checked
+// against these before the screens get to see it, so a bad body fails in one
+// place with an InvalidResponseError instead of somewhere in a render.
+
+// Servers send ids as numbers or strings, the app only deals in strings.
+const id = z.union([z.string().min(1), z.number()]).transform(String);
+
+// Left out and null both mean not set.
+const optionalString = z.string().nullish().transform(value => value ?? undefined);
+
+export const uploadSchema: z.ZodType<Upload, z.ZodTypeDef, unknown> = z.object({
+  id,
+  filename: z.string(),
+  createdAt: z.string(),
+  url: optionalString,
+  captureId: optionalString,
+  variant: z.enum(['original', 'annotated']).nullish().transform(value => value ?? undefined),
+  sourceHash: optionalString,
+});
+
+export const styleSchema: z.ZodType<Style, z.ZodTypeDef, unknown> = z.object({
+  id,
+  name: z.string(),
+  thumbnailUrl: optionalString,
+  uploads: z.array(uploadSchema).optional(),
+}).describe('style');
+
+export const styleListSchema: z.ZodType<StyleWithUploads[], z.ZodTypeDef, unknown> = z.array(
+  z.object({
+    id,
+    name: z.string(),
+    thumbnailUrl: optionalString,
+    uploads: z.array(uploadSchema).nullish().transform(uploads => uploads ?? []),
+  })
+).describe('style list');
+
+export const fileCategoryListSchema: z.ZodType<FileCategory[], z.ZodTypeDef, unknown> = z.array(
+  z.object({ id, name: z.string() })
+).describe('file category list');
+
+// The created file, on its own or wrapped as `{ file }`.
+export const uploadReceiptSchema: z.ZodType<UploadReceipt, z.ZodTypeDef, unknown> = z.preprocess(
+  data => (data !== null && typeof data === 'object' && 'file' in data ? data.file : data),
+  z.object({ id, url: optionalString }).transform(file => ({ fileId: file.id, url: file.url }))
+).describe('upload response');
+
+const describeIssues = (error: z.ZodError) => error.issues.map(issue => (
+  issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+));
+
+// Throws InvalidResponseError when `data` doesn't match.
+export const parseResponse = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown, status = 200) => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new InvalidResponseError(schema.description ?? 'response', status, describeIssues(result.error));
+  }
+  return result.data;
+};
+
+// Reads back a response the app saved as JSON, or null when nothing was saved
+// or it doesn't match. Responses saved before they were checked on the way in
+// may not hold up, so they get the same check on the way out.
+export const parseSavedResponse = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, saved: string | null) => {
+  if (!saved) return null;
+  const result = schema.safeParse(JSON.parse(saved));
+  return result.success ? result.data : null;
+};
@@ -0,0 +1,16 @@
+export interface BackoffOptions {
+  baseDelay?: number;
+  maxDelay?: number;
+}
+
+// Exponential backoff with "equal jitter": the delay doubles with every
+// attempt up to maxDelay, and half of it is randomised so that files that
+// failed together don't all retry at the same moment.
+export const getBackoffDelay = (
+  attempt: number,
+  { baseDelay = 1000, maxDelay = 30000 }: BackoffOptions = {},
+  random: () => number = Math.random,
+) => {
+  const ceiling = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+};
@@ -0,0 +1,199 @@
+import * as FileSystem from 'expo-file-system';
+import { ApiError, RequestAbortedError } from './apiErrors';
+import { sendRequest } from './http';
+import { parseUploadReceipt, UploadReceipt } from './uploadTransport';
+
+/**
+ * Resumable uploads use a small offset protocol modelled on tus:
+ *
+ *   OPTIONS /api/styles/:id/uploads        -> 204, `Upload-Resumable: 1`, `Upload-Chunk-Size: <bytes>`
+ *   POST    /api/styles/:id/uploads        -> 201, `Location: <session url>`, `Upload-Offset: 0`
+ *   HEAD    <session url>                  -> 200, `Upload-Offset: <bytes received>`
+ *   PATCH   <session url>                  -> 204, `Upload-Offset: <bytes received>`
+ *
+ * PATCH bodies are base64 encoded (`Upload-Encoding: base64`) because React Native
+ * cannot read a byte range of a file into a binary request body. The server
+ * creates the style file once the offset reaches the declared size, and may
+ * answer that last PATCH with 200 and the created file, the same body a plain
+ * upload gets back. Anything that travels as an extra multipart part in a
+ * plain upload, such as the annotation sidecar, goes in the POST body instead.
+ */
+
+export interface ChunkSource {
+  size: number;
+  // Returns the requested byte range base64 encoded
+  readChunk: (offset: number, length: number) => Promise<string>;
+}
+
+export interface ChunkedUploadOptions {
+  endpoint: string;
+  accessToken: string | null;
+  filename: string;
+  type: string;
+  source: ChunkSource;
+  chunkSize: number;
+  // Extra properties sent with the request that starts the session
+  metadata?: Record<string, unknown>;
+  // Session from an earlier, interrupted attempt
+  sessionUrl?: string;
+  onSession?: (sessionUrl: string) => void;
+  onProgress?: (loaded: number, total: number) => void;
+  // Aborting leaves the session in place so the upload can resume later
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+// A chunk on a slow connection can take a while, the small requests can't.
+const CHUNK_TIMEOUT = 120000;
+
+// Capabilities rarely change, so only ask each server once per launch.
+const capabilities = new Map<string, number | null>();
+
+const authHeaders = (accessToken: string | null) => ({
+  'Authorization': `Bearer ${accessToken}`,
+  'Accept': 'application/json',
+});
+
+const readOffset = (response: Response) => {
+  const offset = Number(response.headers.get('Upload-Offset'));
+  if (!Number.isFinite(offset) || offset < 0) {
+    throw new ApiError('Server did not report an upload offset', response.status);
+  }
+  return offset;
+};
+
+// Worked out from the string, React Native's URL can't tell the origin.
+const resolveUrl = (location: string, base: string) => {
+  if (/^https?:\/\//.test(location)) return location;
+  const origin = base.match(/^https?:\/\/[^/?#]+/)?.[0] ?? '';
+  return `${origin}${location.startsWith('/') ? '' : '/'}${location}`;
+};
+
+// Returns the chunk size the server asks for, or null when it only accepts
+// plain multipart uploads.
+export const getChunkedUploadSupport = async (endpoint: string, accessToken: string | null) => {
+  if (capabilities.has(endpoint)) {
+    return capabilities.get(endpoint) ?? null;
+  }
+
+  let response: Response;
+  try {
+    response = await sendRequest(endpoint, { method: 'OPTIONS', headers: authHeaders(accessToken) });
+  } catch {
+    // Don't cache network failures, the next attempt can ask again.
+    return null;
+  }
+  if (response.status === 401 || response.status === 403) {
+    // Says nothing about the server, only about the token.
+    throw new ApiError(`Not allowed to upload (status ${response.status})`, response.status);
+  }
+  const supported = response.ok && response.headers.get('Upload-Resumable') === '1';
+  const chunkSize = Number(response.headers.get('Upload-Chunk-Size')) || DEFAULT_CHUNK_SIZE;
+  capabilities.set(endpoint, supported ? chunkSize : null);
+  return capabilities.get(endpoint) ?? null;
+};
+
+export const fileChunkSource = async (uri: string): Promise<ChunkSource> => {
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) {
+    throw new ApiError('File no longer exists', 400);
+  }
+  return {
+    size: info.size,
+    readChunk: (offset, length) => FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: offset,
+      length,
+    }),
+  };
+};
+
+const createSession = async ({ endpoint, accessToken, filename, type, source, metadata, signal }: ChunkedUploadOptions) => {
+  const response = await sendRequest(endpoint, {
+    method: 'POST',
+    signal,
+    headers: {
+      ...authHeaders(accessToken),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...metadata, filename, type, size: source.size }),
+  });
+  const location = response.headers.get('Location');
+  if (!response.ok || !location) {
+    throw new ApiError(`Could not start upload (status ${response.status})`, response.status);
+  }
+  return resolveUrl(location, endpoint);
+};
+
+// Asks the server how much of an earlier session it kept. A missing session
+// means it expired and the file has to start again.
+const fetchSessionOffset = async (sessionUrl: string, accessToken: string | null, signal?: AbortSignal) => {
+  const response = await sendRequest(sessionUrl, { method: 'HEAD', headers: authHeaders(accessToken), signal });
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new ApiError(`Could not resume upload (status ${response.status})`, response.status);
+  }
+  return readOffset(response);
+};
+
+export const uploadChunked = async (options: ChunkedUploadOptions) => {
+  const { accessToken, source, chunkSize, onSession, onProgress, signal } = options;
+
+  let sessionUrl = options.sessionUrl;
+  let offset: number | null = null;
+  if (sessionUrl) {
+    offset = await fetchSessionOffset(sessionUrl, accessToken, signal);
+  }
+  if (!sessionUrl || offset === null) {
+    sessionUrl = await createSession(options);
+    offset = 0;
+    onSession?.(sessionUrl);
+  }
+
+  onProgress?.(offset, source.size);
+
+  let receipt: UploadReceipt | undefined;
+  while (offset < source.size) {
+    if (signal?.aborted) {
+      throw new RequestAbortedError();
+    }
+    const length = Math.min(chunkSize, source.size - offset);
+    const chunk = await source.readChunk(offset, length);
+
+    const response = await sendRequest(sessionUrl, {
+      method: 'PATCH',
+      signal,
+      timeout: CHUNK_TIMEOUT,
+      headers: {
+        ...authHeaders(accessToken),
+        'Content-Type': 'application/offset+octet-stream',
+        'Upload-Encoding': 'base64',
+        'Upload-Offset': String(offset),
+      },
+      body: chunk,
+    });
+
+    if (response.status === 409) {
+      // We fell out of step with the server, carry on from what it has.
+      offset = await fetchSessionOffset(sessionUrl, accessToken, signal);
+      if (offset === null) {
+        sessionUrl = await createSession(options);
+        offset = 0;
+        onSession?.(sessionUrl);
+      }
+      continue;
+    }
+    if (!response.ok) {
+      throw new ApiError(`Upload failed with status ${response.status}`, response.status);
+    }
+
+    offset = readOffset(response);
+    onProgress?.(offset, source.size);
+    if (offset >= source.size && response.status === 200) {
+      receipt = parseUploadReceipt(await response.text());
+    }
+  }
+  return receipt;
+};
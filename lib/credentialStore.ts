@@ -0,0 +1,40 @@
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+
+// Where secrets such as access tokens are kept. Unlike AsyncStorage, what is
+// written here is encrypted by the OS and not included in backups.
+export interface CredentialStore {
+  get: (name: string) => Promise<string | null>;
+  set: (name: string, value: string) => Promise<void>;
+  remove: (name: string) => Promise<void>;
+}
+
+// Keychain on iOS, Keystore backed storage on Android.
+const secureStore: CredentialStore = {
+  get: name => SecureStore.getItemAsync(name),
+  set: (name, value) => SecureStore.setItemAsync(name, value),
+  remove: name => SecureStore.deleteItemAsync(name),
+};
+
+// The web has nothing better than local storage to offer.
+const asyncStorageStore: CredentialStore = {
+  get: name => AsyncStorage.getItem(`credential:${name}`),
+  set: (name, value) => AsyncStorage.setItem(`credential:${name}`, value),
+  remove: name => AsyncStorage.removeItem(`credential:${name}`),
+};
+
+export const credentialStore: CredentialStore = Platform.OS === 'web' ? asyncStorageStore : secureStore;
+
+// Moves secrets that earlier versions left in plain AsyncStorage across,
+// without overwriting anything already stored securely.
+export const migrateFromAsyncStorage = async (names: string[], store = credentialStore) => {
+  for (const name of names) {
+    const legacy = await AsyncStorage.getItem(name);
+    if (legacy === null) continue;
+    if ((await store.get(name)) === null) {
+      await store.set(name, legacy);
+    }
+    await AsyncStorage.removeItem(name);
+  }
+};
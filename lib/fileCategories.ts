@@ -0,0 +1,40 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { apiForProfile } from './api';
+import { fileCategoryListSchema, parseSavedResponse } from './apiSchemas';
+
+export interface FileCategory {
+  id: string;
+  name: string;
+}
+
+// Each server has its own categories.
+const storageKey = (profileId: string) => `fileCategories_${profileId}`;
+
+// Used until the server has given us its own list.
+export const DEFAULT_FILE_CATEGORIES: FileCategory[] = [
+  { id: 'front', name: 'Front' },
+  { id: 'back', name: 'Back' },
+  { id: 'detail', name: 'Detail' },
+  { id: 'label', name: 'Label' },
+  { id: 'defect', name: 'Defect' },
+];
+
+// Fetches the categories a profile's server accepts for a file's view,
+// keeping the last good list so the form still works offline.
+export const loadFileCategories = async (profileId: string): Promise<FileCategory[]> => {
+  try {
+    const categories = await apiForProfile(profileId).getFileCategories();
+    await AsyncStorage.setItem(storageKey(profileId), JSON.stringify(categories));
+    return categories;
+  } catch (error) {
+    console.error('Error loading file categories:', error);
+  }
+
+  try {
+    const saved = await AsyncStorage.getItem(storageKey(profileId));
+    return parseSavedResponse(fileCategoryListSchema, saved) ?? DEFAULT_FILE_CATEGORIES;
+  } catch (error) {
+    console.error('Error reading saved file categories:', error);
+    return DEFAULT_FILE_CATEGORIES;
+  }
+};
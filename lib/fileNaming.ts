@@ -0,0 +1,136 @@
+export interface FileType {
+  mimeType: string;
+  extension: string;
+}
+
+const TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  csv: 'text/csv',
+};
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/x-m4v': 'm4v',
+  'video/quicktime': 'mov',
+  'application/pdf': 'pdf',
+  'application/msword': 'doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-powerpoint': 'ppt',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'text/csv': 'csv',
+};
+
+// Documents that can be attached to a style next to photos and videos.
+export const DOCUMENT_MIME_TYPES = Object.keys(EXTENSIONS_BY_TYPE).filter(type => (
+  !type.startsWith('image/') && !type.startsWith('video/')
+));
+
+const extensionOf = (path?: string | null) => {
+  const match = path?.split('?')[0].match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : null;
+};
+
+// Prefers what the picker reported, then the original file name, then the
+// uri, and falls back to JPEG which is what the camera produces.
+export const detectFileType = ({ uri, mimeType, fileName }: {
+  uri: string;
+  mimeType?: string | null;
+  fileName?: string | null;
+}): FileType => {
+  if (mimeType && EXTENSIONS_BY_TYPE[mimeType]) {
+    return { mimeType, extension: EXTENSIONS_BY_TYPE[mimeType] };
+  }
+
+  const extension = extensionOf(fileName) ?? extensionOf(uri);
+  if (extension && TYPES_BY_EXTENSION[extension]) {
+    return { mimeType: TYPES_BY_EXTENSION[extension], extension: extension === 'jpeg' ? 'jpg' : extension };
+  }
+
+  if (mimeType) {
+    return { mimeType, extension: extension ?? 'bin' };
+  }
+  return { mimeType: 'image/jpeg', extension: 'jpg' };
+};
+
+// Formats most servers and browsers can't display, converted before upload.
+export const needsJpegConversion = (type: FileType) => (
+  type.mimeType === 'image/heic' || type.mimeType === 'image/heif'
+);
+
+export const DEFAULT_FILE_NAME_TEMPLATE = '{styleName}_{view}_{index}_{date}';
+
+export const FILE_NAME_TOKENS = ['styleName', 'styleId', 'view', 'variant', 'index', 'date', 'time', 'original'] as const;
+
+export type FileNameToken = typeof FILE_NAME_TOKENS[number];
+
+export interface FileNameContext {
+  styleName?: string;
+  styleId?: string;
+  view?: string;
+  variant?: string;
+  index?: number;
+  date?: Date;
+  // Name of the file on the device, without extension
+  original?: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const tokenValue = (token: FileNameToken, context: FileNameContext) => {
+  const date = context.date ?? new Date();
+  switch (token) {
+    case 'date':
+      return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+    case 'time':
+      return `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+    case 'index':
+      return context.index !== undefined ? String(context.index) : '';
+    default:
+      return context[token] ?? '';
+  }
+};
+
+// Fills in a template like `{styleName}_{view}_{index}_{date}`. Empty tokens
+// are dropped along with the separator next to them, and anything that isn't
+// safe in a file name is replaced.
+export const renderFileName = (template: string, context: FileNameContext, extension: string) => {
+  let name = template.replace(/\{(\w+)\}/g, (match, token) => (
+    (FILE_NAME_TOKENS as readonly string[]).includes(token) ? tokenValue(token as FileNameToken, context) : match
+  ));
+
+  // Variants of one capture would otherwise share a name.
+  if (context.variant === 'annotated' && !template.includes('{variant}')) {
+    name = `${name}_annotated`;
+  }
+
+  name = name
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/([_-])[_-]+/g, '$1')
+    .replace(/^[._-]+|[._-]+$/g, '');
+
+  return `${name || 'upload'}.${extension}`;
+};
@@ -0,0 +1,36 @@
+import { NetworkError, RequestAbortedError, TimeoutError } from './apiErrors';
+
+export const DEFAULT_TIMEOUT = 15000;
+
+export interface SendOptions extends RequestInit {
+  // Milliseconds before the request is given up on
+  timeout?: number;
+}
+
+// fetch with a timeout, where failing to get any response at all comes back
+// as one of the errors in apiErrors. Responses are returned whatever their
+// status, checking it is up to the caller.
+export const sendRequest = async (url: string, { timeout = DEFAULT_TIMEOUT, signal, ...init }: SendOptions = {}) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  }
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch {
+    if (signal?.aborted) throw new RequestAbortedError();
+    if (timedOut) throw new TimeoutError();
+    throw new NetworkError();
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
@@ -0,0 +1,360 @@
+import type { StyleWithUploads, Upload } from './api';
+import { FIXTURE_FILE_CATEGORIES, FIXTURE_STYLES } from './mockBackendFixtures';
+
+/**
+ * A stand-in for the Matter server that lives inside the app. Once installed
+ * it answers fetch and XMLHttpRequest calls to MOCK_BASE_URL from memory and
+ * passes everything else through, so the scan, upload and history screens
+ * can be used without a network. It implements
+ *
+ *   GET    /api/styles
+ *   GET    /api/styles/:id
+ *   POST   /api/styles/:id/files                (multipart, `file` plus fields)
+ *   DELETE /api/styles/:id/files/:fileId
+ *   GET    /api/file-categories
+ *   POST   /api/mobile-upload/refresh
+ *
+ * Resumable uploads are not offered, so uploads fall back to multipart.
+ */
+
+export const MOCK_BASE_URL = 'https://mock.matter.local';
+export const MOCK_ACCESS_TOKEN = 'mock-token';
+
+export interface MockBackendOptions {
+  styles?: StyleWithUploads[];
+  // Milliseconds added to every response, or a range to pick from
+  latency?: number | { min: number; max: number };
+  // Share of requests, 0 to 1, that fail with a 503
+  failureRate?: number;
+  random?: () => number;
+}
+
+// Forced for the next matching request: an HTTP status, or 'network' for a
+// connection that drops without an answer.
+export type MockFailure = number | 'network';
+
+interface MockRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  // Parsed JSON, or the fields and files of a multipart body
+  body?: unknown;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+interface MultipartPart {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+interface MultipartBody {
+  fields: Record<string, string>;
+  files: Record<string, MultipartPart>;
+}
+
+class MockNetworkFailure extends Error {}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const isMockUrl = (url: string) => url.startsWith(MOCK_BASE_URL);
+
+// Taken from the string, React Native's URL doesn't implement pathname.
+const mockPath = (url: string) => url.slice(MOCK_BASE_URL.length).split(/[?#]/)[0] || '/';
+
+const lowerCaseKeys = (headers: Record<string, string>) => Object.fromEntries(
+  Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+);
+
+// React Native's FormData hands its parts over as they are, files included.
+// Elsewhere only the plain fields can be read back.
+const readFormData = (formData: FormData): MultipartBody => {
+  const body: MultipartBody = { fields: {}, files: {} };
+  const parts: ({ fieldName: string; string?: string } & Partial<MultipartPart>)[] =
+    typeof (formData as any).getParts === 'function'
+      ? (formData as any).getParts()
+      : [...(formData as any).entries()].map(([fieldName, value]: [string, unknown]) => (
+        typeof value === 'string' ? { fieldName, string: value } : { fieldName }
+      ));
+
+  parts.forEach(part => {
+    if (typeof part.string === 'string') {
+      body.fields[part.fieldName] = part.string;
+    } else if (part.uri) {
+      body.files[part.fieldName] = { uri: part.uri, name: part.name ?? 'file', type: part.type ?? 'application/octet-stream' };
+    }
+  });
+  return body;
+};
+
+const wait = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  if (ms <= 0) {
+    resolve();
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new Error('Aborted'));
+  });
+});
+
+export const createMockBackend = ({
+  styles: initialStyles = FIXTURE_STYLES,
+  latency: initialLatency = 0,
+  failureRate: initialFailureRate = 0,
+  random = Math.random,
+}: MockBackendOptions = {}) => {
+  let styles = clone(initialStyles);
+  let latency = initialLatency;
+  let failureRate = initialFailureRate;
+  let forcedFailures: { failure: MockFailure; path?: string }[] = [];
+  let nextId = 1;
+  let nextToken = 1;
+  let refreshEnabled = true;
+  const validTokens = new Set([MOCK_ACCESS_TOKEN]);
+  const requests: { method: string; path: string }[] = [];
+
+  const delay = () => (typeof latency === 'number'
+    ? latency
+    : latency.min + random() * (latency.max - latency.min));
+
+  const findStyle = (id: string) => styles.find(style => style.id === id);
+
+  const notFound = (message = 'Not found'): MockResponse => ({ status: 404, body: { message } });
+
+  // Hands out a new token for any old one, expired or not.
+  const refresh = (): MockResponse => {
+    if (!refreshEnabled) {
+      return notFound();
+    }
+    const token = `${MOCK_ACCESS_TOKEN}-${nextToken++}`;
+    validTokens.add(token);
+    return { status: 200, body: { token } };
+  };
+
+  const route = ({ method, path, body }: MockRequest): MockResponse => {
+    const parts = path.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (method === 'GET' && path === '/api/file-categories') {
+      return { status: 200, body: FIXTURE_FILE_CATEGORIES };
+    }
+    if (parts[0] !== 'api' || parts[1] !== 'styles') {
+      return notFound();
+    }
+    if (parts.length === 2 && method === 'GET') {
+      return { status: 200, body: styles };
+    }
+
+    const style = findStyle(parts[2]);
+    if (!style) {
+      return notFound('Style not found');
+    }
+    if (parts.length === 3 && method === 'GET') {
+      return { status: 200, body: style };
+    }
+    if (parts.length === 4 && parts[3] === 'files' && method === 'POST') {
+      const { fields, files } = body as MultipartBody;
+      if (!files.file) {
+        return { status: 422, body: { message: 'No file was sent' } };
+      }
+      const upload: Upload = {
+        id: `mock-${nextId++}`,
+        filename: files.file.name,
+        createdAt: new Date().toISOString(),
+        // Points back at the file on the device, so history can show it
+        url: files.file.uri,
+        captureId: fields.captureId,
+        variant: fields.variant === 'original' || fields.variant === 'annotated' ? fields.variant : undefined,
+        sourceHash: fields.sourceHash,
+      };
+      style.uploads = [upload, ...style.uploads];
+      return { status: 201, body: upload };
+    }
+    if (parts.length === 5 && parts[3] === 'files' && method === 'DELETE') {
+      if (!style.uploads.some(upload => upload.id === parts[4])) {
+        return notFound('File not found');
+      }
+      style.uploads = style.uploads.filter(upload => upload.id !== parts[4]);
+      return { status: 204 };
+    }
+    return { status: 405, body: { message: 'Method not allowed' } };
+  };
+
+  // Throws MockNetworkFailure when the request should never get an answer.
+  const handle = async (request: MockRequest, signal?: AbortSignal | null): Promise<MockResponse> => {
+    requests.push({ method: request.method, path: request.path });
+    await wait(delay(), signal);
+
+    const forced = forcedFailures.findIndex(({ path }) => !path || request.path.startsWith(path));
+    if (forced !== -1) {
+      const [{ failure }] = forcedFailures.splice(forced, 1);
+      if (failure === 'network') {
+        throw new MockNetworkFailure();
+      }
+      return { status: failure, body: { message: `Injected failure (${failure})` } };
+    }
+    if (failureRate > 0 && random() < failureRate) {
+      return { status: 503, body: { message: 'Injected failure (503)' } };
+    }
+
+    if (request.method === 'POST' && request.path === '/api/mobile-upload/refresh') {
+      return refresh();
+    }
+    const token = (request.headers.authorization ?? '').replace(/^Bearer /, '');
+    if (!validTokens.has(token)) {
+      return { status: 401, body: { message: 'Token expired' } };
+    }
+    return route(request);
+  };
+
+  const fetch = async (url: string, init: RequestInit = {}) => {
+    const headers = lowerCaseKeys((init.headers ?? {}) as Record<string, string>);
+    const body = typeof init.body === 'string' && headers['content-type']?.includes('json')
+      ? JSON.parse(init.body)
+      : undefined;
+
+    try {
+      const response = await handle({ method: init.method ?? 'GET', path: mockPath(url), headers, body }, init.signal);
+      const text = response.body === undefined ? null : JSON.stringify(response.body);
+      return new Response(text, {
+        status: response.status,
+        headers: text ? { 'Content-Type': 'application/json' } : {},
+      });
+    } catch (error) {
+      if (!(error instanceof MockNetworkFailure) && !init.signal?.aborted) throw error;
+      // Same as what fetch does when there's no connection, or it's aborted.
+      throw new TypeError('Network request failed');
+    }
+  };
+
+  return {
+    handle,
+    fetch,
+    // Every request the backend has seen, oldest first
+    requests,
+    getStyles: () => styles,
+    setLatency: (value: MockBackendOptions['latency'] & {}) => {
+      latency = value;
+    },
+    setFailureRate: (value: number) => {
+      failureRate = value;
+    },
+    // Fails the next `count` requests, optionally only those under a path
+    failNext: (failure: MockFailure, { count = 1, path }: { count?: number; path?: string } = {}) => {
+      forcedFailures = [...forcedFailures, ...new Array(count).fill({ failure, path })];
+    },
+    // Makes the server turn a token down, as if it had expired
+    expireToken: (token: string) => {
+      validTokens.delete(token);
+    },
+    // Without refresh, an expired token can only be replaced by a new scan
+    setRefreshEnabled: (enabled: boolean) => {
+      refreshEnabled = enabled;
+    },
+    reset: () => {
+      styles = clone(initialStyles);
+      forcedFailures = [];
+      refreshEnabled = true;
+      requests.length = 0;
+      validTokens.clear();
+      validTokens.add(MOCK_ACCESS_TOKEN);
+    },
+  };
+};
+
+export type MockBackend = ReturnType<typeof createMockBackend>;
+
+// jest has no XMLHttpRequest of its own; this stands in for what uploads use.
+class MissingXMLHttpRequest {
+  upload: { onprogress: ((event: ProgressEvent) => void) | null } = { onprogress: null };
+  open() {
+    throw new Error('XMLHttpRequest is not available here');
+  }
+  setRequestHeader() {}
+  send() {}
+  abort() {}
+}
+
+// Sends requests for the mock server to the backend and the rest on to the
+// real XMLHttpRequest.
+const interceptXMLHttpRequest = (backend: MockBackend, Base: typeof XMLHttpRequest) => (
+  class MockableXMLHttpRequest extends Base {
+    private mock: MockRequest | null = null;
+    private aborted = false;
+
+    open(method: string, url: string | URL, ...rest: any[]) {
+      const href = String(url);
+      if (!isMockUrl(href)) {
+        this.mock = null;
+        return (super.open as any)(method, url, ...rest);
+      }
+      this.mock = { method, path: mockPath(href), headers: {} };
+    }
+
+    setRequestHeader(name: string, value: string) {
+      if (!this.mock) return super.setRequestHeader(name, value);
+      this.mock.headers[name.toLowerCase()] = value;
+    }
+
+    abort() {
+      if (!this.mock) return super.abort();
+      this.aborted = true;
+      this.onabort?.({} as ProgressEvent);
+    }
+
+    send(body?: Document | XMLHttpRequestBodyInit | null) {
+      if (!this.mock) return super.send(body);
+      const request = this.mock;
+      if (body instanceof FormData) {
+        request.body = readFormData(body);
+      }
+
+      // Report the whole body as sent before the answer arrives.
+      const total = 1;
+      this.upload.onprogress?.call(this, { lengthComputable: true, loaded: total, total } as ProgressEvent);
+
+      backend.handle(request).then(
+        response => {
+          if (this.aborted) return;
+          Object.defineProperty(this, 'status', { value: response.status, configurable: true });
+          Object.defineProperty(this, 'responseText', {
+            value: response.body === undefined ? '' : JSON.stringify(response.body),
+            configurable: true,
+          });
+          Object.defineProperty(this, 'readyState', { value: 4, configurable: true });
+          this.onload?.({} as ProgressEvent);
+        },
+        () => {
+          if (this.aborted) return;
+          this.onerror?.({} as ProgressEvent);
+        },
+      );
+    }
+  }
+);
+
+// Routes the app's requests for MOCK_BASE_URL to the backend until the
+// returned function is called.
+export const installMockBackend = (backend: MockBackend = createMockBackend()) => {
+  const originalFetch = global.fetch;
+  const OriginalXMLHttpRequest = global.XMLHttpRequest;
+
+  global.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    return isMockUrl(url) ? backend.fetch(url, init) : originalFetch(input, init);
+  }) as typeof fetch;
+  global.XMLHttpRequest = interceptXMLHttpRequest(
+    backend,
+    OriginalXMLHttpRequest ?? (MissingXMLHttpRequest as unknown as typeof XMLHttpRequest),
+  );
+
+  return () => {
+    global.fetch = originalFetch;
+    global.XMLHttpRequest = OriginalXMLHttpRequest;
+  };
+};
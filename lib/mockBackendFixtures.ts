@@ -0,0 +1,48 @@
+import type { StyleWithUploads } from './api';
+import type { FileCategory } from './fileCategories';
+
+// What the mock backend starts out with, enough to click through every screen.
+export const FIXTURE_STYLES: StyleWithUploads[] = [
+  {
+    id: '1042',
+    name: 'SS25 Linen Shirt Dress',
+    uploads: [
+      { id: '9001', filename: 'SS25-Linen-Shirt-Dress_1042_front_1.jpg', createdAt: '2025-03-10T09:12:00.000Z' },
+      {
+        id: '9002',
+        filename: 'SS25-Linen-Shirt-Dress_1042_detail_2_original.jpg',
+        createdAt: '2025-03-10T09:14:00.000Z',
+        captureId: 'fixture-capture-1',
+        variant: 'original',
+      },
+      {
+        id: '9003',
+        filename: 'SS25-Linen-Shirt-Dress_1042_detail_2_annotated.jpg',
+        createdAt: '2025-03-10T09:14:00.000Z',
+        captureId: 'fixture-capture-1',
+        variant: 'annotated',
+      },
+    ],
+  },
+  {
+    id: '1043',
+    name: 'SS25 Pleated Midi Skirt',
+    uploads: [
+      { id: '9004', filename: 'SS25-Pleated-Midi-Skirt_1043_front_1.jpg', createdAt: '2025-03-11T14:30:00.000Z' },
+    ],
+  },
+  {
+    id: '1044',
+    name: 'AW25 Wool Overcoat',
+    uploads: [],
+  },
+];
+
+export const FIXTURE_FILE_CATEGORIES: FileCategory[] = [
+  { id: 'front', name: 'Front' },
+  { id: 'back', name: 'Back' },
+  { id: 'side', name: 'Side' },
+  { id: 'detail', name: 'Detail' },
+  { id: 'label', name: 'Label' },
+  { id: 'defect', name: 'Defect' },
+];
@@ -0,0 +1,314 @@
+import * as FileSystem from 'expo-file-system';
+import * as ImageManipulator from 'expo-image-manipulator';
+import { FileType } from './fileNaming';
+
+/**
+ * Removes location and device details from photos before they leave the phone.
+ *
+ * The Exif block is rebuilt from a short list of tags that are safe to share
+ * and that viewers need, orientation and capture time, so everything else in
+ * it goes: GPS, maker notes, serial numbers and the embedded thumbnail. XMP
+ * and IPTC blocks can repeat the same details and are dropped as a whole.
+ * Image data is copied through untouched.
+ *
+ * Other formats keep their metadata in blocks of their own, so instead they
+ * are re-encoded, which writes the pixels out without any of it.
+ */
+
+const MARKER_SOS = 0xda;
+const MARKER_APP1 = 0xe1;
+const MARKER_APP13 = 0xed;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+
+const KEPT_IFD0_TAGS = [
+  0x0112, // Orientation
+  0x0132, // DateTime
+];
+
+const KEPT_EXIF_TAGS = [
+  0x9003, // DateTimeOriginal
+  0x9004, // DateTimeDigitized
+  0x9010, // OffsetTime
+  0x9011, // OffsetTimeOriginal
+  0x9291, // SubSecTimeOriginal
+];
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  // Raw value bytes, still in the file's byte order
+  value: Uint8Array;
+}
+
+export type ExifValue = string | number | number[];
+
+export interface ExifTags {
+  ifd0: Record<number, ExifValue>;
+  exif: Record<number, ExifValue>;
+  gps: Record<number, ExifValue>;
+}
+
+const startsWith = (bytes: Uint8Array, offset: number, prefix: number[]) => (
+  prefix.every((byte, index) => bytes[offset + index] === byte)
+);
+
+// Yields each marker segment before the image data, with offsets of the
+// whole segment including its marker.
+const readSegments = (jpeg: Uint8Array) => {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+    throw new Error('Not a JPEG file');
+  }
+
+  const segments: { marker: number; start: number; end: number }[] = [];
+  let offset = 2;
+  while (offset < jpeg.length) {
+    if (jpeg[offset] !== 0xff) {
+      throw new Error(`Unexpected byte at ${offset}`);
+    }
+    // Markers may be padded with any number of 0xFF bytes.
+    while (jpeg[offset + 1] === 0xff) offset++;
+    const marker = jpeg[offset + 1];
+    if (marker === MARKER_SOS) {
+      return { segments, imageStart: offset };
+    }
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    segments.push({ marker, start: offset, end: offset + 2 + length });
+    offset += 2 + length;
+  }
+  throw new Error('JPEG has no image data');
+};
+
+const createReader = (tiff: Uint8Array) => {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = tiff[0] === 0x49 && tiff[1] === 0x49;
+  if (!little && !(tiff[0] === 0x4d && tiff[1] === 0x4d)) {
+    throw new Error('Unknown TIFF byte order');
+  }
+  return {
+    little,
+    u16: (offset: number) => view.getUint16(offset, little),
+    u32: (offset: number) => view.getUint32(offset, little),
+  };
+};
+
+const readIfd = (tiff: Uint8Array, offset: number): TiffEntry[] => {
+  const { u16, u32 } = createReader(tiff);
+  const count = u16(offset);
+  const entries: TiffEntry[] = [];
+  for (let index = 0; index < count; index++) {
+    const entry = offset + 2 + index * 12;
+    const type = u16(entry + 2);
+    const valueCount = u32(entry + 4);
+    const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+    const valueOffset = size <= 4 ? entry + 8 : u32(entry + 8);
+    if (valueOffset + size > tiff.length) continue;
+    entries.push({ tag: u16(entry), type, count: valueCount, value: tiff.slice(valueOffset, valueOffset + size) });
+  }
+  return entries;
+};
+
+const pointerOf = (tiff: Uint8Array, entries: TiffEntry[], tag: number) => {
+  const entry = entries.find(candidate => candidate.tag === tag);
+  if (!entry) return null;
+  const view = new DataView(entry.value.buffer, entry.value.byteOffset, entry.value.byteLength);
+  return view.getUint32(0, createReader(tiff).little);
+};
+
+const parseTiff = (tiff: Uint8Array) => {
+  const { u32 } = createReader(tiff);
+  const ifd0 = readIfd(tiff, u32(4));
+  const exifOffset = pointerOf(tiff, ifd0, TAG_EXIF_IFD);
+  const gpsOffset = pointerOf(tiff, ifd0, TAG_GPS_IFD);
+  return {
+    ifd0,
+    exif: exifOffset ? readIfd(tiff, exifOffset) : [],
+    gps: gpsOffset ? readIfd(tiff, gpsOffset) : [],
+  };
+};
+
+// Lays out IFD0 and, when there is anything to put in it, the Exif IFD.
+// Values longer than four bytes follow their directory, word aligned.
+const writeTiff = (ifd0: TiffEntry[], exif: TiffEntry[], little: boolean) => {
+  const ifdSize = (entries: TiffEntry[]) => 2 + entries.length * 12 + 4;
+  const dataSize = (entries: TiffEntry[]) => entries.reduce((total, entry) => (
+    total + (entry.value.length > 4 ? entry.value.length + (entry.value.length % 2) : 0)
+  ), 0);
+
+  const exifPointer: TiffEntry = { tag: TAG_EXIF_IFD, type: TYPE_LONG, count: 1, value: new Uint8Array(4) };
+  const mainEntries = exif.length > 0 ? [...ifd0, exifPointer] : ifd0;
+  const exifOffset = 8 + ifdSize(mainEntries) + dataSize(mainEntries);
+  const total = exifOffset + (exif.length > 0 ? ifdSize(exif) + dataSize(exif) : 0);
+
+  const tiff = new Uint8Array(total);
+  const view = new DataView(tiff.buffer);
+  tiff.set(little ? [0x49, 0x49] : [0x4d, 0x4d], 0);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+  new DataView(exifPointer.value.buffer).setUint32(0, exifOffset, little);
+
+  const writeIfd = (entries: TiffEntry[], offset: number) => {
+    const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+    let dataOffset = offset + ifdSize(sorted);
+    view.setUint16(offset, sorted.length, little);
+    sorted.forEach((entry, index) => {
+      const position = offset + 2 + index * 12;
+      view.setUint16(position, entry.tag, little);
+      view.setUint16(position + 2, entry.type, little);
+      view.setUint32(position + 4, entry.count, little);
+      if (entry.value.length <= 4) {
+        tiff.set(entry.value, position + 8);
+      } else {
+        view.setUint32(position + 8, dataOffset, little);
+        tiff.set(entry.value, dataOffset);
+        dataOffset += entry.value.length + (entry.value.length % 2);
+      }
+    });
+    // No further IFDs, which drops the embedded thumbnail.
+    view.setUint32(offset + 2 + sorted.length * 12, 0, little);
+  };
+
+  writeIfd(mainEntries, 8);
+  if (exif.length > 0) {
+    writeIfd(exif, exifOffset);
+  }
+  return tiff;
+};
+
+const exifPayload = (jpeg: Uint8Array, segment: { start: number; end: number }) => {
+  const payloadStart = segment.start + 4;
+  if (!startsWith(jpeg, payloadStart, EXIF_HEADER)) return null;
+  return jpeg.subarray(payloadStart + EXIF_HEADER.length, segment.end);
+};
+
+const buildExifSegment = (tiff: Uint8Array) => {
+  const length = 2 + EXIF_HEADER.length + tiff.length;
+  const segment = new Uint8Array(2 + length);
+  segment.set([0xff, MARKER_APP1, length >> 8, length & 0xff], 0);
+  segment.set(EXIF_HEADER, 4);
+  segment.set(tiff, 4 + EXIF_HEADER.length);
+  return segment;
+};
+
+// Returns a copy of the JPEG with only the safe Exif tags left. An Exif block
+// that can't be read is dropped entirely rather than passed on.
+export const stripSensitiveMetadata = (jpeg: Uint8Array) => {
+  const { segments, imageStart } = readSegments(jpeg);
+  const parts: Uint8Array[] = [jpeg.subarray(0, 2)];
+
+  segments.forEach(segment => {
+    if (segment.marker === MARKER_APP13) return;
+    if (segment.marker !== MARKER_APP1) {
+      parts.push(jpeg.subarray(segment.start, segment.end));
+      return;
+    }
+
+    // XMP and anything else that isn't Exif is left out.
+    const tiff = exifPayload(jpeg, segment);
+    if (!tiff) return;
+    try {
+      const { ifd0, exif } = parseTiff(tiff);
+      const keptIfd0 = ifd0.filter(entry => KEPT_IFD0_TAGS.includes(entry.tag));
+      const keptExif = exif.filter(entry => KEPT_EXIF_TAGS.includes(entry.tag));
+      if (keptIfd0.length > 0 || keptExif.length > 0) {
+        parts.push(buildExifSegment(writeTiff(keptIfd0, keptExif, createReader(tiff).little)));
+      }
+    } catch (error) {
+      console.error('Dropping unreadable Exif block:', error);
+    }
+  });
+
+  parts.push(jpeg.subarray(imageStart));
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+};
+
+const decodeValue = (entry: TiffEntry, little: boolean): ExifValue => {
+  const view = new DataView(entry.value.buffer, entry.value.byteOffset, entry.value.byteLength);
+  if (entry.type === TYPE_ASCII) {
+    return String.fromCharCode(...entry.value).replace(/\0+$/, '');
+  }
+  if (entry.type === TYPE_SHORT && entry.count === 1) return view.getUint16(0, little);
+  if (entry.type === TYPE_LONG && entry.count === 1) return view.getUint32(0, little);
+  return Array.from(entry.value);
+};
+
+// Reads the tags of every Exif block in a JPEG, keyed by IFD and tag number.
+export const readExifTags = (jpeg: Uint8Array): ExifTags => {
+  const tags: ExifTags = { ifd0: {}, exif: {}, gps: {} };
+  readSegments(jpeg).segments
+    .filter(segment => segment.marker === MARKER_APP1)
+    .forEach(segment => {
+      const tiff = exifPayload(jpeg, segment);
+      if (!tiff) return;
+      const { little } = createReader(tiff);
+      const parsed = parseTiff(tiff);
+      (['ifd0', 'exif', 'gps'] as const).forEach(ifd => {
+        parsed[ifd].forEach(entry => {
+          tags[ifd][entry.tag] = decodeValue(entry, little);
+        });
+      });
+    });
+  return tags;
+};
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Spreading a whole photo into fromCharCode would overflow the stack.
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Formats that are re-encoded as they are. HEIC has no writer and becomes a
+// JPEG, though presets have normally converted it already.
+const REENCODED_FORMATS: Record<string, { format: ImageManipulator.SaveFormat; type: FileType }> = {
+  'image/png': { format: ImageManipulator.SaveFormat.PNG, type: { mimeType: 'image/png', extension: 'png' } },
+  'image/webp': { format: ImageManipulator.SaveFormat.WEBP, type: { mimeType: 'image/webp', extension: 'webp' } },
+  'image/heic': { format: ImageManipulator.SaveFormat.JPEG, type: { mimeType: 'image/jpeg', extension: 'jpg' } },
+  'image/heif': { format: ImageManipulator.SaveFormat.JPEG, type: { mimeType: 'image/jpeg', extension: 'jpg' } },
+};
+
+// Writes a sanitised copy of a photo to the cache and returns it with its
+// type, which only changes for HEIC. Anything else, e.g. a GIF, which has no
+// camera metadata and would lose its animation, is returned as it is.
+export const sanitizePhotoFile = async (uri: string, type: FileType) => {
+  const reencoded = REENCODED_FORMATS[type.mimeType];
+  if (reencoded) {
+    const result = await ImageManipulator.manipulateAsync(uri, [], { compress: 1, format: reencoded.format });
+    return { uri: result.uri, type: reencoded.type };
+  }
+  if (type.mimeType !== 'image/jpeg') return { uri, type };
+
+  const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  const sanitized = stripSensitiveMetadata(base64ToBytes(base64));
+  const destination = `${FileSystem.cacheDirectory}sanitized-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.jpg`;
+  await FileSystem.writeAsStringAsync(destination, bytesToBase64(sanitized), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return { uri: destination, type };
+};
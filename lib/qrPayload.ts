@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { decodeBase64Url } from './format';
+
+/**
+ * Reads what a Matter style QR code hands out. Three formats are in use:
+ *
+ *   legacy   https://[server]/mobile-upload/[style-id]/[unique-id]
+ *            The unique id is what the server takes as the token.
+ *   token    https://[server]/mobile-upload/style/[style-id]?token=[token]
+ *            The style id is read from the third path segment, whatever the
+ *            second one is.
+ *   signed   https://[server]/mobile-upload?v=2&payload=[payload]&sig=[signature]
+ *            `payload` is base64url JSON, `{ "styleId", "token", "exp"? }`
+ *            with `exp` in seconds, and `sig` the server's signature over it.
+ *
+ * All of them start their path with /mobile-upload, other links on the same
+ * server aren't upload codes. Codes without `v`, or with `v=1`, are one of the
+ * first two. Signatures are
+ * checked by the server when the token is used; pass `verifySignature` to
+ * check them here as well.
+ *
+ * Links into the app carry any of these whole, as `myapp://upload?link=...`.
+ */
+
+// As declared in app.json
+export const APP_LINK_SCHEME = 'myapp';
+
+export type QrFormat = 'legacy' | 'token' | 'signed';
+
+export interface QrPayload {
+  format: QrFormat;
+  baseUrl: string;
+  styleId: string;
+  accessToken: string;
+  // Milliseconds, only signed codes say when they stop working
+  expiresAt: number | null;
+}
+
+export type QrErrorReason =
+  | 'not-a-link'
+  | 'not-matter'
+  | 'missing-style'
+  | 'missing-token'
+  | 'unsupported-version'
+  | 'bad-payload'
+  | 'bad-signature'
+  | 'expired';
+
+export type QrParseResult =
+  | { ok: true; payload: QrPayload }
+  | { ok: false; reason: QrErrorReason; message: string };
+
+export interface QrParseOptions {
+  now?: number;
+  verifySignature?: (payload: string, signature: string) => boolean;
+}
+
+// Written to be shown to whoever is holding the phone.
+export const QR_ERROR_MESSAGES: Record<QrErrorReason, string> = {
+  'not-a-link': 'This QR code doesn\'t contain a link.',
+  'not-matter': 'This QR code isn\'t a Matter upload code.',
+  'missing-style': 'This QR code doesn\'t say which style to upload to.',
+  'missing-token': 'This QR code has no upload token. Create a new one in Matter.',
+  'unsupported-version': 'This QR code needs a newer version of the app.',
+  'bad-payload': 'This QR code is damaged or incomplete. Try scanning it again.',
+  'bad-signature': 'This QR code couldn\'t be verified. Create a new one in Matter.',
+  'expired': 'This QR code has expired. Create a new one in Matter.',
+};
+
+const signedPayloadSchema = z.object({
+  styleId: z.union([z.string().min(1), z.number()]).transform(String),
+  token: z.string().min(1),
+  exp: z.number().optional(),
+});
+
+const fail = (reason: QrErrorReason): QrParseResult => ({ ok: false, reason, message: QR_ERROR_MESSAGES[reason] });
+
+const succeed = (payload: QrPayload): QrParseResult => ({ ok: true, payload });
+
+// The parts of a link the parser looks at. Read off the string rather than
+// with URL, whose React Native version implements none of them.
+interface Link {
+  // Lower case, without the colon
+  scheme: string;
+  host: string;
+  // `scheme://host`, less the default port
+  origin: string;
+  path: string;
+  params: Map<string, string>;
+}
+
+const LINK_PATTERN = /^([a-z][a-z0-9+.-]*):(?:\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?/i;
+
+const DEFAULT_PORTS: Record<string, string> = { http: ':80', https: ':443' };
+
+const decodeParam = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+};
+
+const parseLink = (data: string): Link | null => {
+  const match = data.trim().match(LINK_PATTERN);
+  if (!match) return null;
+  const [, rawScheme, authority = '', path, query = ''] = match;
+  const scheme = rawScheme.toLowerCase();
+  // Credentials are never part of a Matter link, only the host is kept.
+  const hostAndPort = authority.slice(authority.lastIndexOf('@') + 1).toLowerCase();
+  const host = DEFAULT_PORTS[scheme] && hostAndPort.endsWith(DEFAULT_PORTS[scheme])
+    ? hostAndPort.slice(0, -DEFAULT_PORTS[scheme].length)
+    : hostAndPort;
+
+  const params = new Map<string, string>();
+  query.split('&').filter(Boolean).forEach(pair => {
+    const [name, ...value] = pair.split('=');
+    const key = decodeParam(name);
+    // The first one counts, as with URLSearchParams#get
+    if (!params.has(key)) params.set(key, decodeParam(value.join('=')));
+  });
+  return { scheme, host, origin: `${scheme}://${host}`, path, params };
+};
+
+const isWebLink = (link: Link) => (link.scheme === 'https' || link.scheme === 'http') && link.host !== '';
+
+const parseSigned = (link: Link, { now = Date.now(), verifySignature }: QrParseOptions): QrParseResult => {
+  const encoded = link.params.get('payload');
+  const signature = link.params.get('sig');
+  if (!encoded || !signature) {
+    return fail('bad-payload');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(decodeBase64Url(encoded));
+  } catch {
+    return fail('bad-payload');
+  }
+  const result = signedPayloadSchema.safeParse(data);
+  if (!result.success) {
+    return fail('bad-payload');
+  }
+  if (verifySignature && !verifySignature(encoded, signature)) {
+    return fail('bad-signature');
+  }
+
+  const expiresAt = result.data.exp !== undefined ? result.data.exp * 1000 : null;
+  if (expiresAt !== null && expiresAt <= now) {
+    return fail('expired');
+  }
+  return succeed({
+    format: 'signed',
+    baseUrl: link.origin,
+    styleId: result.data.styleId,
+    accessToken: result.data.token,
+    expiresAt,
+  });
+};
+
+const isAppLink = (link: Link) => link.scheme === APP_LINK_SCHEME && link.host === 'upload';
+
+// Whether a link opening the app is meant for the upload flow, as opposed to
+// one of the app's own routes.
+export const isStyleLink = (data: string) => {
+  const link = parseLink(data);
+  if (!link) return false;
+  return isAppLink(link) || (isWebLink(link) && link.path.split('/')[1] === 'mobile-upload');
+};
+
+export const parseQrPayload = (data: string, options: QrParseOptions = {}): QrParseResult => {
+  let link = parseLink(data);
+  if (link && isAppLink(link)) {
+    link = parseLink(link.params.get('link') ?? '');
+  }
+  if (!link) {
+    return fail('not-a-link');
+  }
+  if (!isWebLink(link)) {
+    return fail('not-matter');
+  }
+
+  let segments: string[];
+  try {
+    segments = link.path.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return fail('bad-payload');
+  }
+  if (segments[0] !== 'mobile-upload') {
+    return fail('not-matter');
+  }
+
+  const version = link.params.get('v') ?? '1';
+  if (version === '2') {
+    return parseSigned(link, options);
+  }
+  if (version !== '1') {
+    return fail('unsupported-version');
+  }
+
+  const token = link.params.get('token');
+  if (token !== undefined) {
+    if (!token) return fail('missing-token');
+    if (!segments[2]) return fail('missing-style');
+    return succeed({ format: 'token', baseUrl: link.origin, styleId: segments[2], accessToken: token, expiresAt: null });
+  }
+  if (segments.length < 2) {
+    return fail('missing-style');
+  }
+  if (segments.length < 3 || segments[1] === 'style') {
+    // A current style link that lost its token on the way
+    return fail('missing-token');
+  }
+  return succeed({ format: 'legacy', baseUrl: link.origin, styleId: segments[1], accessToken: segments[2], expiresAt: null });
+};
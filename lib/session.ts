@@ -0,0 +1,238 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { credentialStore, migrateFromAsyncStorage } from './credentialStore';
+import { forgetCachedStyles } from './styleCache';
+import { decodeBase64Url } from './format';
+
+// A Matter server the app has been connected to by scanning one of its QR
+// codes. Staff working across instances keep one profile per server: codes
+// only say which server they come from, not which workspace or account, so
+// the server is what tells profiles apart.
+export interface ServerProfile {
+  id: string;
+  // Shown in the switcher, the server's host until renamed
+  name: string;
+  baseUrl: string;
+  // Style of the last QR code scanned for this server
+  styleId: string | null;
+  // Set once the server has turned the token down for good, until the next scan
+  expired: boolean;
+}
+
+// What the API client and screens need of a profile, the token included.
+export interface Session {
+  profileId: string | null;
+  styleId: string | null;
+  accessToken: string | null;
+  baseUrl: string | null;
+  expired: boolean;
+}
+
+type Listener = (session: Session) => void;
+type ProfilesListener = (profiles: ServerProfile[], activeProfileId: string | null) => void;
+
+const PROFILES_KEY = 'serverProfiles';
+const ACTIVE_PROFILE_KEY = 'activeProfileId';
+const LEGACY_KEYS = ['styleId', 'baseUrl', 'sessionExpired'];
+
+let profiles: ServerProfile[] = [];
+let activeProfileId: string | null = null;
+// The profile made from the single session this launch, if there was one
+let migratedProfileId: string | null = null;
+let loaded: Promise<void> | null = null;
+const listeners = new Set<Listener>();
+const profilesListeners = new Set<ProfilesListener>();
+
+const tokenName = (profileId: string) => `accessToken.${profileId}`;
+
+const createProfileId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const hostOf = (baseUrl: string) => baseUrl.replace(/^https?:\/\//, '');
+
+const persist = async () => {
+  try {
+    await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    if (activeProfileId) {
+      await AsyncStorage.setItem(ACTIVE_PROFILE_KEY, activeProfileId);
+    } else {
+      await AsyncStorage.removeItem(ACTIVE_PROFILE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving server profiles:', error);
+  }
+};
+
+// Before profiles there was a single session kept under these keys, and
+// before that its token sat in AsyncStorage too.
+const migrateLegacySession = async () => {
+  await migrateFromAsyncStorage(['accessToken']);
+  const [[, styleId], [, baseUrl], [, expired]] = await AsyncStorage.multiGet(LEGACY_KEYS);
+  if (baseUrl) {
+    const profile: ServerProfile = {
+      id: createProfileId(),
+      name: hostOf(baseUrl),
+      baseUrl,
+      styleId,
+      expired: expired === 'true',
+    };
+    const accessToken = await credentialStore.get('accessToken');
+    if (accessToken) {
+      await credentialStore.set(tokenName(profile.id), accessToken);
+    }
+    profiles = [profile];
+    activeProfileId = profile.id;
+    migratedProfileId = profile.id;
+    await persist();
+  }
+  await credentialStore.remove('accessToken');
+  await AsyncStorage.multiRemove(LEGACY_KEYS);
+};
+
+export const loadProfiles = () => {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const saved = await AsyncStorage.getItem(PROFILES_KEY);
+        if (saved) {
+          profiles = JSON.parse(saved);
+          activeProfileId = await AsyncStorage.getItem(ACTIVE_PROFILE_KEY);
+        } else {
+          await migrateLegacySession();
+        }
+      } catch (error) {
+        console.error('Error loading server profiles:', error);
+      }
+    })();
+  }
+  return loaded;
+};
+
+export const getProfiles = () => profiles;
+
+export const getActiveProfileId = () => activeProfileId;
+
+// Uploads queued before profiles existed went to the session it replaced.
+// Known once loadProfiles has finished.
+export const getMigratedProfileId = () => migratedProfileId;
+
+// The active profile's session, or another profile's when given its id. A
+// profile that no longer exists comes back empty.
+export const getSession = async (profileId?: string | null): Promise<Session> => {
+  await loadProfiles();
+  const profile = profiles.find(candidate => candidate.id === (profileId ?? activeProfileId));
+  if (!profile) {
+    return { profileId: null, styleId: null, accessToken: null, baseUrl: null, expired: false };
+  }
+  return {
+    profileId: profile.id,
+    styleId: profile.styleId,
+    accessToken: await credentialStore.get(tokenName(profile.id)),
+    baseUrl: profile.baseUrl,
+    expired: profile.expired,
+  };
+};
+
+const notify = async () => {
+  profilesListeners.forEach(listener => listener(profiles, activeProfileId));
+  const session = await getSession();
+  listeners.forEach(listener => listener(session));
+};
+
+const updateProfile = async (profileId: string | null | undefined, changes: Partial<ServerProfile>) => {
+  await loadProfiles();
+  const id = profileId ?? activeProfileId;
+  profiles = profiles.map(profile => (profile.id === id ? { ...profile, ...changes } : profile));
+  await persist();
+  await notify();
+};
+
+// Takes what a scanned QR code handed out. A server that already has a
+// profile gets the new token and style, whoever the code was made for, any
+// other one a new profile; either way it becomes the active one.
+export const saveSession = async ({ styleId, accessToken, baseUrl }: { styleId: string; accessToken: string; baseUrl: string }) => {
+  await loadProfiles();
+  const existing = profiles.find(candidate => candidate.baseUrl === baseUrl);
+  const profile: ServerProfile = existing
+    ? { ...existing, styleId, expired: false }
+    : { id: createProfileId(), name: hostOf(baseUrl), baseUrl, styleId, expired: false };
+  profiles = existing
+    ? profiles.map(candidate => (candidate.id === profile.id ? profile : candidate))
+    : [...profiles, profile];
+  await credentialStore.set(tokenName(profile.id), accessToken);
+  activeProfileId = profile.id;
+  await persist();
+  await notify();
+};
+
+export const switchProfile = async (profileId: string) => {
+  await loadProfiles();
+  if (!profiles.some(profile => profile.id === profileId)) return;
+  activeProfileId = profileId;
+  await persist();
+  await notify();
+};
+
+export const renameProfile = (profileId: string, name: string) => updateProfile(profileId, { name });
+
+// Points later uploads on a profile, the active one by default, at another
+// of its styles without a new scan.
+export const setSessionStyle = (styleId: string, profileId?: string | null) => updateProfile(profileId, { styleId });
+
+// Swaps in a token the server handed out in place of the scanned one.
+export const updateAccessToken = async (accessToken: string, profileId?: string | null) => {
+  await loadProfiles();
+  const id = profileId ?? activeProfileId;
+  if (!id) return;
+  await credentialStore.set(tokenName(id), accessToken);
+  await notify();
+};
+
+export const markSessionExpired = (profileId?: string | null) => updateProfile(profileId, { expired: true });
+
+// Signs out of a server, the active one by default: forgets the profile and
+// wipes its token and cached styles from the device. Another profile, if
+// any, takes over.
+export const clearSession = async (profileId?: string | null) => {
+  await loadProfiles();
+  const id = profileId ?? activeProfileId;
+  if (!id) return;
+  await credentialStore.remove(tokenName(id));
+  await forgetCachedStyles(id);
+  profiles = profiles.filter(profile => profile.id !== id);
+  if (activeProfileId === id) {
+    activeProfileId = profiles[0]?.id ?? null;
+  }
+  await persist();
+  await notify();
+};
+
+export const subscribeToSession = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const subscribeToProfiles = (listener: ProfilesListener) => {
+  profilesListeners.add(listener);
+  return () => {
+    profilesListeners.delete(listener);
+  };
+};
+
+// When the token says it stops being valid, in milliseconds. Only JWTs carry
+// this; other tokens return null and are trusted until the server says no.
+export const getTokenExpiry = (token: string) => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const { exp } = JSON.parse(decodeBase64Url(parts[1]));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpired = (token: string, now = Date.now()) => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry <= now;
+};
@@ -0,0 +1,66 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { UploadPresetId } from './uploadPresets';
+import { DEFAULT_FILE_NAME_TEMPLATE } from './fileNaming';
+
+// Preferences that belong to this device rather than to a style or server.
+export interface AppSettings {
+  uploadPreset: UploadPresetId;
+  // Send the clean photo as well as the marked-up render for annotated images
+  uploadOriginalWithAnnotated: boolean;
+  // See renderFileName for the tokens it supports
+  fileNameTemplate: string;
+  // Remove location and device details from photos before they are sent
+  stripPhotoMetadata: boolean;
+}
+
+type Listener = (settings: AppSettings) => void;
+
+const STORAGE_KEY = 'appSettings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  uploadPreset: 'original',
+  uploadOriginalWithAnnotated: false,
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+  stripPhotoMetadata: true,
+};
+
+let settings: AppSettings = DEFAULT_SETTINGS;
+let loaded: Promise<AppSettings> | null = null;
+const listeners = new Set<Listener>();
+
+export const loadSettings = () => {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const saved = await AsyncStorage.getItem(STORAGE_KEY);
+        // Merge so settings added in later versions pick up their defaults.
+        settings = { ...DEFAULT_SETTINGS, ...(saved ? JSON.parse(saved) : {}) };
+        listeners.forEach(listener => listener(settings));
+      } catch (error) {
+        console.error('Error loading settings:', error);
+      }
+      return settings;
+    })();
+  }
+  return loaded;
+};
+
+export const getSettings = () => settings;
+
+export const updateSettings = async (changes: Partial<AppSettings>) => {
+  await loadSettings();
+  settings = { ...settings, ...changes };
+  listeners.forEach(listener => listener(settings));
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving settings:', error);
+  }
+};
+
+export const subscribeToSettings = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,34 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { StyleWithUploads } from './api';
+import { parseSavedResponse, styleListSchema } from './apiSchemas';
+
+// The last style list each server profile returned, so the screens have
+// something to show straight away and while offline.
+
+const storageKey = (profileId: string) => `styleList_${profileId}`;
+
+export const getCachedStyles = async (profileId: string): Promise<StyleWithUploads[]> => {
+  try {
+    const saved = await AsyncStorage.getItem(storageKey(profileId));
+    return parseSavedResponse(styleListSchema, saved) ?? [];
+  } catch (error) {
+    console.error('Error loading cached styles:', error);
+    return [];
+  }
+};
+
+export const cacheStyles = async (profileId: string, styles: StyleWithUploads[]) => {
+  try {
+    await AsyncStorage.setItem(storageKey(profileId), JSON.stringify(styles));
+  } catch (error) {
+    console.error('Error caching styles:', error);
+  }
+};
+
+export const forgetCachedStyles = async (profileId: string) => {
+  try {
+    await AsyncStorage.removeItem(storageKey(profileId));
+  } catch (error) {
+    console.error('Error removing cached styles:', error);
+  }
+};
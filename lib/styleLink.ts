@@ -0,0 +1,31 @@
+import { parseQrPayload, QrParseResult } from './qrPayload';
+import { getProfiles, loadProfiles, saveSession } from './session';
+
+// Connects to the server and style a scanned QR code or an opened link points
+// at. Anything that doesn't parse leaves the session as it was and comes back
+// with the reason.
+export const connectStyleLink = async (data: string): Promise<QrParseResult> => {
+  const result = parseQrPayload(data);
+  if (result.ok) {
+    const { styleId, accessToken, baseUrl } = result.payload;
+    // Also lifts an expired session, which lets parked uploads continue.
+    await saveSession({ styleId, accessToken, baseUrl });
+  }
+  return result;
+};
+
+// Where an opened style link should land. Unlike a code the user chose to
+// scan, a link can come from anyone, so one for a server without a profile
+// asks first rather than moving the uploads over to it.
+export const routeForStyleLink = async (data: string) => {
+  const result = parseQrPayload(data);
+  if (!result.ok) {
+    return `/scanner?linkError=${result.reason}`;
+  }
+  await loadProfiles();
+  if (!getProfiles().some(profile => profile.baseUrl === result.payload.baseUrl)) {
+    return `/connect?link=${encodeURIComponent(data)}`;
+  }
+  await connectStyleLink(data);
+  return '/upload';
+};
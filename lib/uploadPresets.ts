@@ -0,0 +1,73 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+import { detectFileType, FileType, needsJpegConversion } from './fileNaming';
+
+export type UploadPresetId = 'original' | 'high' | 'fast';
+
+export interface UploadPreset {
+  id: UploadPresetId;
+  label: string;
+  // Longest edge in pixels, null keeps the original file untouched
+  maxDimension: number | null;
+  compress: number;
+  // Rough size of a re-encoded JPEG at this quality compared to the
+  // full-quality camera output, used only for the estimate on screen
+  byteRatio: number;
+}
+
+export const UPLOAD_PRESETS: UploadPreset[] = [
+  { id: 'original', label: 'Original', maxDimension: null, compress: 1, byteRatio: 1 },
+  { id: 'high', label: 'High (2048px)', maxDimension: 2048, compress: 0.85, byteRatio: 0.7 },
+  { id: 'fast', label: 'Fast (1280px)', maxDimension: 1280, compress: 0.75, byteRatio: 0.55 },
+];
+
+export const getUploadPreset = (id: UploadPresetId) => (
+  UPLOAD_PRESETS.find(preset => preset.id === id) ?? UPLOAD_PRESETS[0]
+);
+
+export interface ImageDimensions {
+  width?: number;
+  height?: number;
+  fileSize?: number;
+  mimeType?: string;
+  fileName?: string;
+}
+
+const scaleFor = ({ width, height }: ImageDimensions, preset: UploadPreset) => {
+  if (!preset.maxDimension || !width || !height) return 1;
+  return Math.min(1, preset.maxDimension / Math.max(width, height));
+};
+
+export const estimatePresetSize = (image: ImageDimensions, preset: UploadPreset) => {
+  if (!image.fileSize) return 0;
+  if (!preset.maxDimension) return image.fileSize;
+  const scale = scaleFor(image, preset);
+  return Math.round(image.fileSize * scale * scale * preset.byteRatio);
+};
+
+const JPEG: FileType = { mimeType: 'image/jpeg', extension: 'jpg' };
+
+// Resizes and re-encodes an image for upload. The original preset sends the
+// file as it is, unless it is HEIC which gets converted to JPEG.
+export const applyUploadPreset = async (uri: string, image: ImageDimensions, preset: UploadPreset) => {
+  const type = detectFileType({ uri, mimeType: image.mimeType, fileName: image.fileName });
+  const convert = needsJpegConversion(type);
+  if (!preset.maxDimension && !convert) {
+    return { uri, type };
+  }
+
+  const scale = scaleFor(image, preset);
+  const actions: ImageManipulator.Action[] = [];
+  if (scale < 1 && image.width && image.height) {
+    actions.push({
+      resize: image.width >= image.height
+        ? { width: Math.round(image.width * scale) }
+        : { height: Math.round(image.height * scale) },
+    });
+  }
+
+  const result = await ImageManipulator.manipulateAsync(uri, actions, {
+    compress: preset.compress,
+    format: ImageManipulator.SaveFormat.JPEG,
+  });
+  return { uri: result.uri, type: JPEG };
+};
@@ -0,0 +1,539 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import NetInfo from '@react-native-community/netinfo';
+import { AppState } from 'react-native';
+import { getBackoffDelay } from './backoff';
+import { createUploadScheduler, SchedulerProgress } from './uploadScheduler';
+import { AnnotationSidecar } from './annotationSidecar';
+import { forgetUploadedHashes, recordUploadedHashes } from './uploadedHashes';
+import { fileChunkSource } from './chunkedUpload';
+import { UploadReceipt } from './uploadTransport';
+import { apiForProfile } from './api';
+import { ApiError, RequestAbortedError, SessionError } from './apiErrors';
+import { getMigratedProfileId, getSession, loadProfiles, subscribeToSession } from './session';
+
+export type UploadStatus = 'queued' | 'uploading' | 'retrying' | 'paused' | 'failed' | 'done';
+
+export interface UploadJob {
+  id: string;
+  // The grid entry this job belongs to, used to map state back onto the screen
+  sourceUri: string;
+  // The file that is actually sent, kept in the document directory until done
+  fileUri: string;
+  // Name and content type the server receives
+  fileName: string;
+  mimeType: string;
+  styleId: string;
+  // Server profile the job was queued on
+  profileId: string;
+  // Shared by the jobs created from one photo, e.g. its original and annotated render
+  captureId: string;
+  // Form fields sent with the file
+  fields: Record<string, string>;
+  // Bytes on disk, zero if it couldn't be read
+  size: number;
+  // Higher priorities are sent first, e.g. the cover image
+  priority: number;
+  status: UploadStatus;
+  progress: number;
+  attempts: number;
+  // When a retrying job becomes due again
+  nextAttemptAt?: number;
+  // Retrying jobs that are parked until the device is back online
+  waitingForNetwork?: boolean;
+  // Queued jobs that are parked until the style QR code is scanned again
+  waitingForSession?: boolean;
+  error?: string;
+  // Structured annotations sent next to the file, see annotationSidecar
+  annotationsUri?: string;
+  // Server session of an interrupted chunked upload
+  resumeUrl?: string;
+  // What the server created, when it said
+  receipt?: UploadReceipt;
+  createdAt: number;
+  completedAt?: number;
+}
+
+export interface UploadRequest {
+  sourceUri: string;
+  fileUri: string;
+  fileName: string;
+  mimeType: string;
+  styleId: string;
+  profileId: string;
+  captureId?: string;
+  fields?: Record<string, string>;
+  priority?: number;
+  annotations?: AnnotationSidecar;
+}
+
+type Listener = (jobs: UploadJob[]) => void;
+type ProgressListener = (progress: SchedulerProgress) => void;
+
+const STORAGE_KEY = 'uploadQueue';
+const MAX_ATTEMPTS = 5;
+const QUEUE_DIRECTORY = `${FileSystem.documentDirectory}upload-queue/`;
+
+let jobs: UploadJob[] = [];
+let loaded: Promise<void> | null = null;
+let online = true;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<Listener>();
+const progressListeners = new Set<ProgressListener>();
+// Lets a running upload be stopped when it is paused or cancelled
+const controllers = new Map<string, AbortController>();
+
+const scheduler = createUploadScheduler({
+  onProgress: progress => progressListeners.forEach(listener => listener(progress)),
+});
+
+const persist = async () => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  } catch (error) {
+    console.error('Error saving upload queue:', error);
+  }
+};
+
+const emit = () => {
+  listeners.forEach(listener => listener(jobs));
+};
+
+const updateJob = (id: string, changes: Partial<UploadJob>, save = true) => {
+  jobs = jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+  emit();
+  if (save) {
+    persist();
+  }
+};
+
+export const createUploadId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Picker and camera results live in the cache directory, which the OS may
+// purge, so queued files are copied somewhere that survives a restart.
+const copyIntoQueue = async (id: string, uri: string) => {
+  try {
+    await FileSystem.makeDirectoryAsync(QUEUE_DIRECTORY, { intermediates: true });
+    const extension = uri.split('?')[0].split('.').pop() || 'jpg';
+    const destination = `${QUEUE_DIRECTORY}${id}.${extension}`;
+    await FileSystem.copyAsync({ from: uri, to: destination });
+    return destination;
+  } catch (error) {
+    console.error('Error copying file into upload queue:', error);
+    return uri;
+  }
+};
+
+const writeSidecar = async (id: string, annotations: AnnotationSidecar) => {
+  await FileSystem.makeDirectoryAsync(QUEUE_DIRECTORY, { intermediates: true });
+  const destination = `${QUEUE_DIRECTORY}${id}.annotations.json`;
+  await FileSystem.writeAsStringAsync(destination, JSON.stringify(annotations));
+  return destination;
+};
+
+const removeQueuedFile = async (uri: string) => {
+  if (!uri.startsWith(QUEUE_DIRECTORY)) return;
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.error('Error removing queued file:', error);
+  }
+};
+
+export const loadUploadQueue = () => {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const saved = await AsyncStorage.getItem(STORAGE_KEY);
+        const savedJobs: UploadJob[] = saved ? JSON.parse(saved) : [];
+        // Jobs from before profiles belong to the profile their session became,
+        // which is only known on the launch that makes it, so they are saved
+        // with it straight away. Without one they have nowhere to go, and are
+        // dropped rather than sent with whichever profile happens to be active.
+        await loadProfiles();
+        const legacyProfileId = getMigratedProfileId();
+        jobs = savedJobs.flatMap(job => {
+          const profileId = job.profileId ?? legacyProfileId;
+          if (!profileId) {
+            removeQueuedFile(job.fileUri);
+            return [];
+          }
+          // Anything still marked as uploading was interrupted by the app closing.
+          return [{
+            ...job,
+            profileId,
+            attempts: job.attempts ?? 0,
+            size: job.size ?? 0,
+            priority: job.priority ?? 0,
+            captureId: job.captureId ?? job.id,
+            fileName: job.fileName ?? `upload_${job.createdAt}.jpg`,
+            mimeType: job.mimeType ?? 'image/jpeg',
+            fields: job.fields ?? {},
+            ...(job.status === 'uploading' ? { status: 'queued' as const, progress: 0 } : {}),
+            // Whether the device is still offline is for NetInfo to say now;
+            // if it is, the next attempt parks the job again.
+            ...(job.waitingForNetwork ? { waitingForNetwork: false, nextAttemptAt: Date.now() } : {}),
+          }];
+        });
+        if (savedJobs.some(job => !job.profileId)) {
+          persist();
+        }
+        emit();
+      } catch (error) {
+        console.error('Error loading upload queue:', error);
+      }
+    })();
+  }
+  return loaded;
+};
+
+export const getUploadJobs = () => jobs;
+
+export const subscribeToUploadQueue = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getUploadProgress = () => scheduler.getProgress();
+
+export const subscribeToUploadProgress = (listener: ProgressListener) => {
+  progressListeners.add(listener);
+  return () => {
+    progressListeners.delete(listener);
+  };
+};
+
+// Switching profiles doesn't redirect work that is already queued.
+const clientFor = (job: UploadJob) => apiForProfile(job.profileId);
+
+const runJob = async (job: UploadJob, reportProgress: (bytesSent: number) => void) => {
+  updateJob(job.id, { status: 'uploading', progress: 0, waitingForNetwork: false });
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+
+  try {
+    const file = {
+      uri: job.fileUri,
+      type: job.mimeType,
+      name: job.fileName,
+    };
+    // Progress is too chatty to write to storage on every event.
+    const onProgress = (loaded: number, total: number) => {
+      reportProgress(job.size * (loaded / total));
+      updateJob(job.id, { progress: (loaded / total) * 100 }, false);
+    };
+
+    const client = clientFor(job);
+    const chunkSize = await client.getResumableUploadSupport(job.styleId);
+    let receipt: UploadReceipt | undefined;
+    if (chunkSize) {
+      receipt = await client.uploadFileResumable({
+        styleId: job.styleId,
+        filename: file.name,
+        type: file.type,
+        source: await fileChunkSource(job.fileUri),
+        chunkSize,
+        sessionUrl: job.resumeUrl,
+        metadata: {
+          ...job.fields,
+          ...(job.annotationsUri
+            ? { annotations: JSON.parse(await FileSystem.readAsStringAsync(job.annotationsUri)) }
+            : {}),
+        },
+        onSession: sessionUrl => updateJob(job.id, { resumeUrl: sessionUrl }),
+        onProgress,
+        signal: controller.signal,
+      });
+    } else {
+      receipt = await client.uploadFile({
+        styleId: job.styleId,
+        file,
+        fields: job.fields,
+        attachments: job.annotationsUri
+          ? { annotations: { uri: job.annotationsUri, type: 'application/json', name: 'annotations.json' } }
+          : undefined,
+        onProgress,
+        signal: controller.signal,
+      });
+    }
+
+    updateJob(job.id, { status: 'done', progress: 100, error: undefined, receipt, completedAt: Date.now() });
+    if (job.fields.sourceHash) {
+      await recordUploadedHashes(job.profileId, job.styleId, [job.fields.sourceHash]);
+    }
+    await removeQueuedFile(job.fileUri);
+    if (job.annotationsUri) {
+      await removeQueuedFile(job.annotationsUri);
+    }
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      // Whoever stopped the job has already decided what happens to it.
+      throw error;
+    }
+    if (error instanceof SessionError) {
+      // Not the file's fault, so it keeps its attempts and waits for a new scan.
+      updateJob(job.id, { status: 'queued', progress: 0, waitingForSession: true, error: error.message });
+      throw error;
+    }
+    console.error('Upload error:', error);
+    const message = error instanceof Error ? error.message : String(error);
+    const retryable = !(error instanceof ApiError) || error.retryable;
+
+    const attempts = job.attempts + 1;
+    if (retryable && (await NetInfo.fetch()).isConnected === false) {
+      // Being offline doesn't count against the file, it just waits.
+      updateJob(job.id, { status: 'retrying', progress: 0, waitingForNetwork: true, error: message });
+    } else if (retryable && attempts < MAX_ATTEMPTS) {
+      updateJob(job.id, {
+        status: 'retrying',
+        progress: 0,
+        attempts,
+        nextAttemptAt: Date.now() + getBackoffDelay(attempts - 1),
+        error: message,
+      });
+    } else {
+      updateJob(job.id, { status: 'failed', progress: 0, attempts, error: message });
+    }
+    scheduleRetry();
+    // Let the scheduler know the bytes weren't delivered.
+    throw error;
+  } finally {
+    controllers.delete(job.id);
+  }
+};
+
+const isDue = (job: UploadJob, now: number) => (
+  (job.status === 'queued' && !job.waitingForSession) ||
+  (job.status === 'retrying' && !job.waitingForNetwork && (job.nextAttemptAt ?? 0) <= now)
+);
+
+// Wakes the queue up when the earliest retrying job is due.
+const scheduleRetry = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  const dueTimes = jobs
+    .filter(job => job.status === 'retrying' && !job.waitingForNetwork)
+    .map(job => job.nextAttemptAt ?? 0);
+  if (dueTimes.length === 0) return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processUploadQueue();
+  }, Math.max(0, Math.min(...dueTimes) - Date.now()));
+};
+
+// Hands every job that is due to the scheduler, which decides how many run at
+// once and in which order.
+export const processUploadQueue = async () => {
+  await loadUploadQueue();
+  if (!online) return;
+
+  const now = Date.now();
+  jobs
+    .filter(job => isDue(job, now) && !scheduler.has(job.id))
+    .forEach(job => {
+      scheduler.add({
+        id: job.id,
+        priority: job.priority,
+        // Resumed jobs go back to where they were rather than to the end
+        sequence: job.createdAt,
+        size: job.size,
+        run: reportProgress => runJob(job, reportProgress),
+      });
+    });
+  scheduleRetry();
+};
+
+const getFileSize = async (uri: string) => {
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists ? info.size : 0;
+  } catch (error) {
+    console.error('Error reading file size:', error);
+    return 0;
+  }
+};
+
+export const enqueueUploads = async (requests: UploadRequest[]) => {
+  await loadUploadQueue();
+
+  const newJobs: UploadJob[] = [];
+  for (const request of requests) {
+    const id = createUploadId();
+    const fileUri = await copyIntoQueue(id, request.fileUri);
+    newJobs.push({
+      id,
+      sourceUri: request.sourceUri,
+      fileUri,
+      fileName: request.fileName,
+      mimeType: request.mimeType,
+      styleId: request.styleId,
+      profileId: request.profileId,
+      captureId: request.captureId ?? id,
+      fields: request.fields ?? {},
+      size: await getFileSize(fileUri),
+      priority: request.priority ?? 0,
+      annotationsUri: request.annotations ? await writeSidecar(id, request.annotations) : undefined,
+      status: 'queued',
+      progress: 0,
+      attempts: 0,
+      createdAt: Date.now(),
+    });
+  }
+
+  jobs = [...jobs, ...newJobs];
+  emit();
+  await persist();
+  processUploadQueue();
+  return newJobs.map(job => job.id);
+};
+
+// Gives failed jobs a fresh set of attempts. Without ids every failed job
+// in the queue is resubmitted.
+export const retryFailedUploads = async (ids?: string[]) => {
+  jobs = jobs.map(job => (
+    job.status === 'failed' && (!ids || ids.includes(job.id))
+      ? { ...job, status: 'queued', attempts: 0, nextAttemptAt: undefined, error: undefined }
+      : job
+  ));
+  emit();
+  await persist();
+  processUploadQueue();
+};
+
+// Stops jobs without giving up their place. Running uploads are aborted and a
+// chunked upload picks up from its session when resumed.
+export const pauseUploads = async (ids: string[]) => {
+  const pausable: UploadStatus[] = ['queued', 'uploading', 'retrying'];
+  const paused = jobs.filter(job => ids.includes(job.id) && pausable.includes(job.status));
+  jobs = jobs.map(job => (
+    paused.includes(job)
+      ? { ...job, status: 'paused', progress: 0, nextAttemptAt: undefined, waitingForNetwork: false, waitingForSession: false }
+      : job
+  ));
+  paused.forEach(job => {
+    scheduler.remove(job.id);
+    controllers.get(job.id)?.abort();
+  });
+  emit();
+  await persist();
+  scheduleRetry();
+};
+
+// Without ids every paused job in the queue is resumed.
+export const resumeUploads = async (ids?: string[]) => {
+  jobs = jobs.map(job => (
+    job.status === 'paused' && (!ids || ids.includes(job.id)) ? { ...job, status: 'queued' } : job
+  ));
+  emit();
+  await persist();
+  processUploadQueue();
+};
+
+// Aborts anything in flight and drops the jobs from the queue entirely.
+export const cancelUploads = async (ids: string[]) => {
+  ids.forEach(id => controllers.get(id)?.abort());
+  await removeUploadJobs(ids);
+};
+
+export const removeUploadJobs = async (ids: string[]) => {
+  ids.forEach(id => scheduler.remove(id));
+  const removed = jobs.filter(job => ids.includes(job.id));
+  jobs = jobs.filter(job => !ids.includes(job.id));
+  emit();
+  await persist();
+  await Promise.all(removed.flatMap(job => [
+    removeQueuedFile(job.fileUri),
+    ...(job.annotationsUri ? [removeQueuedFile(job.annotationsUri)] : []),
+  ]));
+};
+
+// Deletes finished uploads from the server again and forgets them, e.g. when
+// they went to the wrong style. Jobs without a receipt can't be undone and
+// are left alone; the ids of those that were undone are returned.
+export const undoUploads = async (ids: string[]) => {
+  const undoable = jobs.filter(job => ids.includes(job.id) && job.status === 'done' && job.receipt);
+
+  const undone: UploadJob[] = [];
+  for (const job of undoable) {
+    try {
+      await clientFor(job).deleteFile(job.styleId, job.receipt!.fileId);
+      undone.push(job);
+    } catch (error) {
+      console.error('Error undoing upload:', error);
+    }
+  }
+
+  for (const job of undone) {
+    if (job.fields.sourceHash) {
+      await forgetUploadedHashes(job.profileId, job.styleId, [job.fields.sourceHash]);
+    }
+  }
+  await removeUploadJobs(undone.map(job => job.id));
+  return undone.map(job => job.id);
+};
+
+// Puts the jobs parked on an expired session back in line once their
+// profile has a working one again.
+const releaseSessionJobs = async () => {
+  const ready = new Set<string>();
+  for (const job of jobs.filter(candidate => candidate.waitingForSession)) {
+    const session = await getSession(job.profileId);
+    if (session.baseUrl && !session.expired) {
+      ready.add(job.id);
+    }
+  }
+  if (ready.size === 0) return;
+  jobs = jobs.map(job => (ready.has(job.id) ? { ...job, waitingForSession: false, error: undefined } : job));
+  emit();
+  persist();
+  processUploadQueue();
+};
+
+// Makes the jobs parked while offline due straight away. Returns whether
+// there were any.
+const releaseNetworkJobs = () => {
+  if (!jobs.some(job => job.waitingForNetwork)) return false;
+  jobs = jobs.map(job => (
+    job.waitingForNetwork ? { ...job, waitingForNetwork: false, nextAttemptAt: Date.now() } : job
+  ));
+  emit();
+  persist();
+  return true;
+};
+
+let started = false;
+
+// Called once from the root layout so queued work resumes on launch, when the
+// app comes back to the foreground, when the device reconnects and after a
+// new scan.
+export const startUploadQueue = () => {
+  if (started) return;
+  started = true;
+
+  NetInfo.addEventListener(state => {
+    const wasOnline = online;
+    online = state.isConnected !== false;
+    // Jobs can also be parked while NetInfo still says connected, e.g. when
+    // the failure came before it noticed, so any report of a connection
+    // releases them.
+    if (online && (releaseNetworkJobs() || !wasOnline)) {
+      processUploadQueue();
+    }
+  });
+
+  AppState.addEventListener('change', state => {
+    if (state === 'active') {
+      processUploadQueue();
+    }
+  });
+
+  subscribeToSession(releaseSessionJobs);
+
+  processUploadQueue();
+  loadUploadQueue().then(releaseSessionJobs);
+};
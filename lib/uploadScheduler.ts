@@ -0,0 +1,152 @@
+export interface ScheduledUpload {
+  id: string;
+  // Higher runs first, equal priorities run in sequence order
+  priority: number;
+  // Defaults to the order tasks were added; pass one to keep a task's place
+  // when it is taken out and added back later
+  sequence?: number;
+  // Size in bytes, used for the overall progress and ETA
+  size: number;
+  run: (reportProgress: (bytesSent: number) => void) => Promise<void>;
+}
+
+export interface SchedulerProgress {
+  bytesSent: number;
+  bytesTotal: number;
+  bytesPerSecond: number;
+  // Seconds left at the current rate, null until there is enough to go on
+  etaSeconds: number | null;
+  active: number;
+  pending: number;
+}
+
+export interface SchedulerOptions {
+  concurrency?: number;
+  onProgress?: (progress: SchedulerProgress) => void;
+  now?: () => number;
+}
+
+interface Entry {
+  task: ScheduledUpload;
+  order: number;
+  sent: number;
+}
+
+export const DEFAULT_CONCURRENCY = 2;
+
+export const createUploadScheduler = ({
+  concurrency: initialConcurrency = DEFAULT_CONCURRENCY,
+  onProgress,
+  now = Date.now,
+}: SchedulerOptions = {}) => {
+  let concurrency = Math.max(1, initialConcurrency);
+  let order = 0;
+  let pending: Entry[] = [];
+  const active = new Map<string, Entry>();
+
+  // Totals cover everything scheduled since the scheduler was last idle.
+  let bytesTotal = 0;
+  let bytesDone = 0;
+  let startedAt: number | null = null;
+  let idleWaiters: (() => void)[] = [];
+
+  const getProgress = (): SchedulerProgress => {
+    let bytesSent = bytesDone;
+    active.forEach(entry => {
+      bytesSent += entry.sent;
+    });
+
+    const elapsed = startedAt === null ? 0 : (now() - startedAt) / 1000;
+    const bytesPerSecond = elapsed > 0 ? bytesSent / elapsed : 0;
+    const etaSeconds = bytesPerSecond > 0 ? (bytesTotal - bytesSent) / bytesPerSecond : null;
+
+    return { bytesSent, bytesTotal, bytesPerSecond, etaSeconds, active: active.size, pending: pending.length };
+  };
+
+  const notify = () => {
+    onProgress?.(getProgress());
+  };
+
+  const finish = (entry: Entry, succeeded: boolean) => {
+    active.delete(entry.task.id);
+    if (succeeded) {
+      bytesDone += entry.task.size;
+    } else {
+      // A failed file will be scheduled again from scratch if it is retried.
+      bytesTotal -= entry.task.size;
+    }
+    pump();
+    notify();
+  };
+
+  const pump = () => {
+    while (active.size < concurrency && pending.length > 0) {
+      const entry = pending.shift()!;
+      active.set(entry.task.id, entry);
+
+      entry.task.run(bytesSent => {
+        entry.sent = Math.min(bytesSent, entry.task.size);
+        notify();
+      }).then(
+        () => finish(entry, true),
+        () => finish(entry, false),
+      );
+    }
+
+    if (active.size === 0 && pending.length === 0) {
+      bytesTotal = 0;
+      bytesDone = 0;
+      startedAt = null;
+      const waiters = idleWaiters;
+      idleWaiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  };
+
+  const add = (task: ScheduledUpload) => {
+    if (active.has(task.id) || pending.some(entry => entry.task.id === task.id)) {
+      return false;
+    }
+    if (startedAt === null) {
+      startedAt = now();
+    }
+
+    pending.push({ task, order: task.sequence ?? order++, sent: 0 });
+    pending.sort((a, b) => b.task.priority - a.task.priority || a.order - b.order);
+    bytesTotal += task.size;
+    pump();
+    notify();
+    return true;
+  };
+
+  // Drops a task that hasn't started yet.
+  const remove = (id: string) => {
+    const entry = pending.find(candidate => candidate.task.id === id);
+    if (!entry) return false;
+    pending = pending.filter(candidate => candidate !== entry);
+    bytesTotal -= entry.task.size;
+    pump();
+    notify();
+    return true;
+  };
+
+  const setConcurrency = (value: number) => {
+    concurrency = Math.max(1, value);
+    pump();
+  };
+
+  const has = (id: string) => active.has(id) || pending.some(entry => entry.task.id === id);
+
+  const onIdle = () => {
+    if (active.size === 0 && pending.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise<void>(resolve => {
+      idleWaiters.push(resolve);
+    });
+  };
+
+  return { add, remove, has, setConcurrency, getProgress, onIdle };
+};
+
+export type UploadScheduler = ReturnType<typeof createUploadScheduler>;
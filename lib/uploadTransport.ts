@@ -0,0 +1,108 @@
+import { ApiError, InvalidResponseError, NetworkError, RequestAbortedError } from './apiErrors';
+import { parseResponse, uploadReceiptSchema } from './apiSchemas';
+
+export interface MultipartFile {
+  uri: string;
+  type: string;
+  name: string;
+}
+
+export interface MultipartUploadOptions {
+  url: string;
+  accessToken: string | null;
+  file: MultipartFile;
+  // Plain form fields sent with the file
+  fields?: Record<string, string>;
+  // Additional file parts sent alongside the main file, keyed by field name
+  attachments?: Record<string, MultipartFile>;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+// What the server created for an uploaded file.
+export interface UploadReceipt {
+  fileId: string;
+  url?: string;
+}
+
+// Servers answer with the created file, either on its own or wrapped as
+// `{ file }`. Older servers send nothing useful back, which isn't an error.
+// Neither is a receipt that doesn't parse: the file did arrive, so it is
+// reported and the upload goes through without one.
+const hasId = (value: unknown) => (
+  typeof value === 'object' && value !== null && 'id' in value && value.id !== undefined && value.id !== null
+);
+
+export const parseUploadReceipt = (body: string): UploadReceipt | undefined => {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+  const file = typeof data === 'object' && data !== null && 'file' in data ? data.file : data;
+  if (!hasId(file)) return undefined;
+  try {
+    return parseResponse(uploadReceiptSchema, data);
+  } catch (error) {
+    if (!(error instanceof InvalidResponseError)) throw error;
+    console.warn(`${error.message}, uploaded without a receipt:`, error.issues);
+    return undefined;
+  }
+};
+
+export const uploadMultipart = ({
+  url,
+  accessToken,
+  file,
+  fields = {},
+  attachments = {},
+  onProgress,
+  signal,
+}: MultipartUploadOptions) => {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([name, value]) => {
+    formData.append(name, value);
+  });
+  formData.append('file', file as any);
+  Object.entries(attachments).forEach(([name, attachment]) => {
+    formData.append(name, attachment as any);
+  });
+
+  return new Promise<UploadReceipt | undefined>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && onProgress) {
+        onProgress(event.loaded, event.total);
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(parseUploadReceipt(xhr.responseText));
+      } else {
+        reject(new ApiError(`Upload failed with status ${xhr.status}`, xhr.status));
+      }
+    };
+
+    xhr.onerror = () => {
+      reject(new NetworkError());
+    };
+
+    xhr.onabort = () => {
+      reject(new RequestAbortedError());
+    };
+
+    if (signal?.aborted) {
+      reject(new RequestAbortedError());
+      return;
+    }
+    signal?.addEventListener('abort', () => xhr.abort());
+
+    xhr.open('POST', url);
+    xhr.setRequestHeader('Accept', 'application/json');
+    xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+    xhr.send(formData);
+  });
+};
@@ -0,0 +1,51 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Hashes of photos already sent to each style, so re-picking the same gallery
+// photo can be caught before it is uploaded twice. The hash is the MD5 of the
+// original file on the device and travels with each upload as `sourceHash`.
+// Style ids are only unique within a server, so lists are kept per profile.
+
+const storageKey = (profileId: string, styleId: string) => `uploadedHashes_${profileId}_${styleId}`;
+
+export const getUploadedHashes = async (profileId: string, styleId: string) => {
+  try {
+    const saved = await AsyncStorage.getItem(storageKey(profileId, styleId));
+    return new Set<string>(saved ? JSON.parse(saved) : []);
+  } catch (error) {
+    console.error('Error loading uploaded hashes:', error);
+    return new Set<string>();
+  }
+};
+
+// Each change reads the list and writes it back, so changes to the same list
+// wait for the one before them. Otherwise two uploads finishing together, or
+// an undo landing as an upload finishes, would each drop the other's hashes.
+const pendingWrites = new Map<string, Promise<void>>();
+
+const updateUploadedHashes = (profileId: string, styleId: string, change: (known: Set<string>) => void) => {
+  const key = storageKey(profileId, styleId);
+  const write = (pendingWrites.get(key) ?? Promise.resolve()).then(async () => {
+    const known = await getUploadedHashes(profileId, styleId);
+    change(known);
+    try {
+      await AsyncStorage.setItem(key, JSON.stringify([...known]));
+    } catch (error) {
+      console.error('Error saving uploaded hashes:', error);
+    }
+  });
+  pendingWrites.set(key, write);
+  return write.finally(() => {
+    if (pendingWrites.get(key) === write) pendingWrites.delete(key);
+  });
+};
+
+export const recordUploadedHashes = async (profileId: string, styleId: string, hashes: string[]) => {
+  if (hashes.length === 0) return;
+  await updateUploadedHashes(profileId, styleId, known => hashes.forEach(hash => known.add(hash)));
+};
+
+// Used when an upload is undone, so the photo can be sent again.
+export const forgetUploadedHashes = async (profileId: string, styleId: string, hashes: string[]) => {
+  if (hashes.length === 0) return;
+  await updateUploadedHashes(profileId, styleId, known => hashes.forEach(hash => known.delete(hash)));
+};
@@ -0,0 +1,36 @@
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { formatBytes, formatDuration } from './format';
+
+// Fit clips only need to show a garment moving, longer or bigger files are
+// almost always picked by mistake and take ages on a phone connection.
+export const MAX_VIDEO_DURATION_SECONDS = 60;
+export const MAX_VIDEO_BYTES = 200 * 1024 * 1024;
+
+export interface VideoInfo {
+  // Milliseconds, as the image picker reports it
+  duration?: number | null;
+  fileSize?: number;
+}
+
+// Returns why a clip can't be uploaded, or null when it is fine.
+export const checkVideoLimits = ({ duration, fileSize }: VideoInfo) => {
+  if (duration && duration / 1000 > MAX_VIDEO_DURATION_SECONDS + 0.5) {
+    return `Clips can be at most ${formatDuration(MAX_VIDEO_DURATION_SECONDS)} long, this one is ${formatDuration(duration / 1000)}.`;
+  }
+  if (fileSize && fileSize > MAX_VIDEO_BYTES) {
+    return `Clips can be at most ${formatBytes(MAX_VIDEO_BYTES)}, this one is ${formatBytes(fileSize)}.`;
+  }
+  return null;
+};
+
+// A frame from the start of the clip to show in the grid. The first frame is
+// often black, so it is taken a moment in.
+export const createVideoPoster = async (uri: string) => {
+  try {
+    const { uri: posterUri } = await VideoThumbnails.getThumbnailAsync(uri, { time: 500, quality: 0.7 });
+    return posterUri;
+  } catch (error) {
+    console.error('Error creating video poster:', error);
+    return undefined;
+  }
+};